@@ -21,6 +21,7 @@ export default defineManifest({
     "activeTab",
     "audioCapture",
     "contextMenus",
+    "alarms",
   ],
   background: {
     service_worker: "src/background/service-worker.ts",
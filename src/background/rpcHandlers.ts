@@ -0,0 +1,116 @@
+import { pageCacheService } from "../content/services/PageCacheService";
+import { vocabularyRepository } from "../content/services/VocabularyRepository";
+import { conjugationService } from "../content/services/ConjugationService";
+import { wordInsightService } from "../content/services/WordInsightService";
+import type {
+  RpcRequest,
+  RpcResponse,
+} from "../content/utils/backgroundRpc";
+
+/**
+ * Methods content scripts may call through `callBackground`
+ */
+const RPC_HANDLERS: Record<string, (...args: any[]) => Promise<unknown>> = {
+  "pageCache.get": (key) => pageCacheService.get(key),
+  "pageCache.set": (key, url, wordPairs) =>
+    pageCacheService.set(key, url, wordPairs),
+  "pageCache.evict": () => pageCacheService.evict(),
+  "pageCache.clear": () => pageCacheService.clear(),
+  "conjugations.get": (language, lemma) =>
+    conjugationService.getCached(language, lemma),
+  "conjugations.set": (table) => conjugationService.saveCached(table),
+  "wordInsights.get": (language, sourceLanguage, sourceWord, word) =>
+    wordInsightService.getCached(language, sourceLanguage, sourceWord, word),
+  "wordInsights.set": (insight) => wordInsightService.saveCached(insight),
+  "vocabulary.getWords": (language) => vocabularyRepository.getWords(language),
+  "vocabulary.getWord": (language, wordId) =>
+    vocabularyRepository.getWord(language, wordId),
+  "vocabulary.putWord": (language, wordId, word) =>
+    vocabularyRepository.putWord(language, wordId, word),
+  "vocabulary.patchWord": (language, wordId, changes) =>
+    vocabularyRepository.patchWord(language, wordId, changes),
+  "vocabulary.getGlossary": (language) =>
+    vocabularyRepository.getGlossary(language),
+  "vocabulary.setGlossaryEntry": (
+    language,
+    source,
+    target,
+    sourceLanguage,
+    wordId
+  ) =>
+    vocabularyRepository.setGlossaryEntry(
+      language,
+      source,
+      target,
+      sourceLanguage,
+      wordId
+    ),
+  "vocabulary.removeGlossaryEntry": (language, wordId) =>
+    vocabularyRepository.removeGlossaryEntry(language, wordId),
+  "vocabulary.setWordState": (language, wordId, state) =>
+    vocabularyRepository.setWordState(language, wordId, state),
+  "vocabulary.deleteWord": (language, wordId) =>
+    vocabularyRepository.deleteWord(language, wordId),
+  "vocabulary.addWord": (language, source, target, sourceLanguage) =>
+    vocabularyRepository.addWord(language, source, target, sourceLanguage),
+  "vocabulary.recordEncounter": (
+    language,
+    source,
+    target,
+    sourceLanguage,
+    context
+  ) =>
+    vocabularyRepository.recordEncounter(
+      language,
+      source,
+      target,
+      sourceLanguage,
+      context
+    ),
+  "vocabulary.recordReview": (language, wordId, grade) =>
+    vocabularyRepository.recordReview(language, wordId, grade),
+  "vocabulary.getDueWords": (language, limit) =>
+    vocabularyRepository.getDueWords(language, limit),
+  "vocabulary.getSelectionHints": (language, sourceLanguage) =>
+    vocabularyRepository.getSelectionHints(language, sourceLanguage),
+  "vocabulary.getMostEncounteredWords": (language, limit) =>
+    vocabularyRepository.getMostEncounteredWords(language, limit),
+  "vocabulary.getRecentWords": (language, limit) =>
+    vocabularyRepository.getRecentWords(language, limit),
+  "vocabulary.getEncounters": (language, wordId) =>
+    vocabularyRepository.getEncounters(language, wordId),
+  "vocabulary.getQuizResults": (language, wordId) =>
+    vocabularyRepository.getQuizResults(language, wordId),
+  "vocabulary.getStats": (language) => vocabularyRepository.getStats(language),
+  "vocabulary.updateStats": (language, updates) =>
+    vocabularyRepository.updateStats(language, updates),
+  "vocabulary.incrementStat": (language, field) =>
+    vocabularyRepository.incrementStat(language, field),
+  "vocabulary.importLanguages": (languages) =>
+    vocabularyRepository.importLanguages(languages),
+  "vocabulary.mergeLanguage": (language, data) =>
+    vocabularyRepository.mergeLanguage(language, data),
+};
+
+/**
+ * Run an RPC request and package the result for sendResponse
+ */
+export async function handleRpcRequest(
+  request: RpcRequest
+): Promise<RpcResponse> {
+  const handler = RPC_HANDLERS[request.method];
+  if (!handler) {
+    return { ok: false, error: `Unknown RPC method: ${request.method}` };
+  }
+
+  try {
+    const result = await handler(...request.args);
+    return { ok: true, result };
+  } catch (error) {
+    console.error(`RPC ${request.method} failed:`, error);
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
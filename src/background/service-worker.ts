@@ -1,3 +1,9 @@
+import { storageService } from "../content/services/StorageService";
+import { normalizeConfig } from "../content/utils/translationConfig";
+import { handleRpcRequest } from "./rpcHandlers";
+import { syncService } from "../content/services/SyncService";
+import { pageCacheService } from "../content/services/PageCacheService";
+
 // Open onboarding page on first install
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === "install") {
@@ -11,6 +17,9 @@ chrome.runtime.onInstalled.addListener((details) => {
       "Extension updated to version",
       chrome.runtime.getManifest().version
     );
+
+    // Bring data written by older versions up to the current schema
+    storageService.migrateStorage();
   }
 
   // Create context menu items for text translation
@@ -29,8 +38,61 @@ chrome.runtime.onInstalled.addListener((details) => {
   console.log("Context menu items created");
 });
 
+// Sync settings and vocabulary across the user's devices. Open tabs follow
+// a config that arrives from another device like a change from the popup.
+syncService.start((previous, next) => {
+  chrome.tabs.query({}, (tabs) => {
+    tabs.forEach((tab) => {
+      if (!tab.id) return;
+
+      if (
+        previous.activeLanguage !== next.activeLanguage ||
+        previous.sourceLanguage !== next.sourceLanguage
+      ) {
+        chrome.tabs
+          .sendMessage(tab.id, {
+            type: "LANGUAGE_CHANGED",
+            language: next.activeLanguage,
+          })
+          .catch(() => {
+            // Ignore errors for tabs that don't have content script
+          });
+      } else if (previous.translationEnabled !== next.translationEnabled) {
+        chrome.tabs
+          .sendMessage(tab.id, {
+            type: "UPDATE_TRANSLATION_STATE",
+            enabled: next.translationEnabled,
+          })
+          .catch(() => {
+            // Ignore errors for tabs that don't have content script
+          });
+      }
+    });
+  });
+});
+
+// Keep the page cache within its limits
+pageCacheService.scheduleEviction();
+
+// Answer RPC calls from content scripts (storage that lives in the
+// extension origin, see content/utils/backgroundRpc.ts)
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message.type !== "RPC") {
+    return false;
+  }
+
+  handleRpcRequest(message).then(sendResponse);
+  // Keep the channel open for the async response
+  return true;
+});
+
 // Listen for toggle changes from popup
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // RPC calls are answered by their own listener
+  if (message.type === "RPC") {
+    return false;
+  }
+
   if (message.type === "TOGGLE_CHANGED") {
     console.log("Translation toggled:", message.enabled);
 
@@ -71,6 +133,26 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     });
   }
 
+  if (message.type === "SITE_POLICY_CHANGED") {
+    console.log("Site policy changed:", message.origin);
+
+    // Broadcast to all tabs; only tabs on that origin react
+    chrome.tabs.query({}, (tabs) => {
+      tabs.forEach((tab) => {
+        if (tab.id) {
+          chrome.tabs
+            .sendMessage(tab.id, {
+              type: "SITE_POLICY_CHANGED",
+              origin: message.origin,
+            })
+            .catch(() => {
+              // Ignore errors for tabs that don't have content script
+            });
+        }
+      });
+    });
+  }
+
   sendResponse({ success: true });
   return true;
 });
@@ -91,14 +173,15 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     try {
       // Get active language from storage
       const result = await chrome.storage.local.get("config");
-      const config = result.config || {};
-      const activeLanguage = config.activeLanguage || "french";
+      const config = normalizeConfig(result.config);
+      const activeLanguage = config.activeLanguage;
 
       // Send message to content script to translate the selected text
       await chrome.tabs.sendMessage(tab.id, {
         type: "TRANSLATE_SELECTION",
         text: info.selectionText,
         language: activeLanguage,
+        sourceLanguage: config.sourceLanguage,
         simplify: shouldSimplify,
       });
 
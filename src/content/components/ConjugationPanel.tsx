@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Table, Volume2 } from "lucide-react";
+import { speak } from "../utils/tts";
+import {
+  conjugationService,
+  type ConjugationTable,
+} from "../services/ConjugationService";
+import {
+  getTextDirection,
+  getTtsLocale,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+
+interface ConjugationPanelProps {
+  verb: string; // Dictionary form
+  language: SupportedLanguage;
+}
+
+/**
+ * Collapsible conjugation table of a verb, one tense at a time. The table
+ * is only generated when the learner opens the panel.
+ */
+export function ConjugationPanel({ verb, language }: ConjugationPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [table, setTable] = useState<ConjugationTable | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  const [tenseIndex, setTenseIndex] = useState(0);
+  const [speakingForm, setSpeakingForm] = useState<string | null>(null);
+
+  // Another verb starts closed, without the previous verb's table
+  useEffect(() => {
+    setIsOpen(false);
+    setTable(null);
+    setHasFailed(false);
+    setTenseIndex(0);
+  }, [verb, language]);
+
+  const loadTable = async () => {
+    setIsLoading(true);
+    setHasFailed(false);
+    try {
+      const conjugation = await conjugationService.getConjugation(
+        verb,
+        language
+      );
+      setTable(conjugation);
+      setHasFailed(!conjugation);
+    } catch (error) {
+      console.error("[ConjugationPanel] Failed to load conjugation:", error);
+      setHasFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const nextOpen = !isOpen;
+    setIsOpen(nextOpen);
+    if (nextOpen && !table && !isLoading) {
+      loadTable();
+    }
+  };
+
+  const handleSpeakForm = async (form: string) => {
+    setSpeakingForm(form);
+    try {
+      await speak(form, getTtsLocale(language));
+    } catch (error) {
+      console.error("Error speaking conjugated form:", error);
+    } finally {
+      setSpeakingForm(null);
+    }
+  };
+
+  const tense = table?.tenses[tenseIndex];
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleToggle}
+        className="flex items-center gap-1.5 w-full"
+        aria-expanded={isOpen}
+      >
+        <Table className="w-4 h-4 text-indigo-600" />
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+          Conjugation
+        </span>
+        <bdi className="text-xs text-gray-400 normal-case">{verb}</bdi>
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 text-gray-400 ms-auto" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-gray-400 ms-auto rtl:rotate-180" />
+        )}
+      </button>
+
+      {isOpen &&
+        (isLoading ? (
+          // Skeleton loading
+          <div className="space-y-2 animate-pulse">
+            <div className="h-6 bg-gray-200 rounded w-full"></div>
+            <div className="h-4 bg-gray-100 rounded w-5/6"></div>
+            <div className="h-4 bg-gray-100 rounded w-4/6"></div>
+          </div>
+        ) : hasFailed ? (
+          <div className="text-xs text-gray-500">
+            Conjugation unavailable.{" "}
+            <button
+              onClick={loadTable}
+              className="text-blue-600 hover:underline"
+            >
+              Try again
+            </button>
+          </div>
+        ) : table && tense ? (
+          <div className="space-y-2" dir={getTextDirection(language)}>
+            {/* Tense tabs */}
+            <div className="flex flex-wrap gap-1">
+              {table.tenses.map((entry, index) => (
+                <button
+                  key={entry.tense}
+                  onClick={() => setTenseIndex(index)}
+                  className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                    index === tenseIndex
+                      ? "bg-indigo-600 border-indigo-600 text-white"
+                      : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  {entry.tense}
+                </button>
+              ))}
+            </div>
+
+            <ul className="bg-indigo-50 rounded-lg border border-indigo-100 divide-y divide-indigo-100">
+              {tense.forms.map((form, index) => (
+                <li
+                  key={`${tense.tense}-${index}`}
+                  className="flex items-center justify-between gap-2 px-3 py-1"
+                >
+                  <span className="text-sm text-indigo-700">{form}</span>
+                  <button
+                    onClick={() => handleSpeakForm(form)}
+                    disabled={speakingForm !== null}
+                    className="flex-shrink-0 p-1 rounded hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                    title={`Listen to "${form}"`}
+                  >
+                    <Volume2
+                      className={`w-3.5 h-3.5 text-indigo-600 ${
+                        speakingForm === form ? "animate-pulse" : ""
+                      }`}
+                    />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null)}
+    </div>
+  );
+}
@@ -12,8 +12,17 @@ import {
 } from "lucide-react";
 import { quizService } from "../services/QuizService";
 import { pronunciationService } from "../services/PronunciationService";
+import { storageService } from "../services/StorageService";
+import { getBaseWordId } from "../services/VocabularyRepository";
 import { speak } from "../utils/tts";
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  getLanguageName,
+  getTextDirection,
+  getTtsLocale,
+  isolateText,
+  type SupportedLanguage,
+  type ReviewGrade,
+} from "../utils/translationConfig";
 
 interface QuizQuestion {
   type: "multipleChoice" | "pronunciation";
@@ -25,8 +34,11 @@ interface QuizQuestion {
 }
 
 interface QuizViewProps {
-  englishWord: string;
-  translatedWord: string;
+  sourceWord: string;
+  targetWord: string;
+  // Sense the review is recorded for; defaults to the source word
+  wordId?: string;
+  sourceLanguage: SupportedLanguage;
   language: SupportedLanguage;
   onEndQuiz: () => void;
   cachedQuestions?: QuizQuestion[] | null;
@@ -34,8 +46,10 @@ interface QuizViewProps {
 }
 
 export function QuizView({
-  englishWord,
-  translatedWord,
+  sourceWord,
+  targetWord,
+  wordId,
+  sourceLanguage,
   language,
   onEndQuiz,
   cachedQuestions,
@@ -81,19 +95,20 @@ export function QuizView({
 
       // Generate Question 1: Multiple Choice
       const mcQuestion = await quizService.generateMultipleChoiceQuestion(
-        englishWord,
-        translatedWord,
-        language
+        sourceWord,
+        targetWord,
+        language,
+        sourceLanguage
       );
 
       // Question 2: Pronunciation
       const pronQuestion: QuizQuestion = {
         type: "pronunciation",
-        question: `Say the word "${translatedWord}" in ${
-          language === "french" ? "French" : "Spanish"
-        }`,
-        correctAnswer: translatedWord,
-        translatedWord: translatedWord,
+        question: `Say the word "${isolateText(
+          targetWord
+        )}" in ${getLanguageName(language)}`,
+        correctAnswer: targetWord,
+        translatedWord: targetWord,
       };
 
       const generatedQuestions = [
@@ -103,7 +118,7 @@ export function QuizView({
           options: mcQuestion.options,
           correctAnswer: mcQuestion.correctAnswer,
           correctIndex: mcQuestion.correctIndex,
-          translatedWord: translatedWord,
+          translatedWord: targetWord,
         },
         pronQuestion,
       ];
@@ -121,6 +136,14 @@ export function QuizView({
     }
   };
 
+  const recordReview = (grade: ReviewGrade) => {
+    storageService.recordReview(
+      language,
+      wordId ?? getBaseWordId(sourceWord),
+      grade
+    );
+  };
+
   const handleMultipleChoiceAnswer = (index: number) => {
     if (showAnswer) return; // Already answered
 
@@ -128,9 +151,11 @@ export function QuizView({
     setShowAnswer(true);
 
     const currentQuestion = questions[currentQuestionIndex];
-    if (index === currentQuestion.correctIndex) {
+    const isCorrect = index === currentQuestion.correctIndex;
+    if (isCorrect) {
       setScore(score + 1);
     }
+    recordReview(isCorrect ? "good" : "again");
   };
 
   const handleStartRecording = async () => {
@@ -152,7 +177,7 @@ export function QuizView({
       // Validate pronunciation
       const result = await pronunciationService.validatePronunciation(
         audioBlob,
-        translatedWord,
+        targetWord,
         language
       );
 
@@ -162,6 +187,7 @@ export function QuizView({
       if (result.isCorrect) {
         setScore(score + 1);
       }
+      recordReview(result.isCorrect ? "good" : "hard");
     } catch (error) {
       console.error("Failed to stop recording:", error);
     }
@@ -184,6 +210,8 @@ export function QuizView({
 
   const handleShowAnswer = () => {
     setShowAnswer(true);
+    // Revealing the answer counts as not remembering the word
+    recordReview("again");
   };
 
   const handleListen = async () => {
@@ -192,7 +220,7 @@ export function QuizView({
 
     setIsSpeaking(true);
     try {
-      const langCode = language === "french" ? "fr-FR" : "es-ES";
+      const langCode = getTtsLocale(language);
       // For both question types, speak the translated word (target language)
       const wordToSpeak =
         currentQuestion.translatedWord || currentQuestion.correctAnswer;
@@ -238,7 +266,7 @@ export function QuizView({
   const currentQuestion = questions[currentQuestionIndex];
 
   return (
-    <div className="space-y-4 p-4">
+    <div className="space-y-4 p-4" dir={getTextDirection(language)}>
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="text-sm font-medium text-gray-600">
@@ -270,7 +298,7 @@ export function QuizView({
               }`}
             />
           </button>
-          <p className="text-lg font-semibold text-gray-900 flex-1">
+          <p className="text-lg font-semibold text-gray-900 flex-1" dir="auto">
             {currentQuestion.question}
           </p>
         </div>
@@ -285,7 +313,7 @@ export function QuizView({
             const showFeedback = showAnswer;
 
             let buttonClass =
-              "w-full justify-start text-left h-auto py-3 px-4 ";
+              "w-full justify-start text-start h-auto py-3 px-4 ";
             if (showFeedback) {
               if (isCorrect) {
                 buttonClass += "bg-green-100 border-green-500 text-green-900";
@@ -303,7 +331,8 @@ export function QuizView({
                 className={buttonClass}
               >
                 <div className="flex items-center justify-between w-full">
-                  <span>{option}</span>
+                  {/* Options are source words */}
+                  <span dir={getTextDirection(sourceLanguage)}>{option}</span>
                   {showFeedback && isCorrect && (
                     <CheckCircle2 className="w-5 h-5 text-green-600" />
                   )}
@@ -362,8 +391,8 @@ export function QuizView({
                   >
                     {pronunciationResult.isCorrect ? "Correct!" : "Incorrect"}
                   </p>
-                  <p className="text-sm text-gray-700">
-                    You said: "{pronunciationResult.transcription}"
+                  <p className="text-sm text-gray-700" dir="auto">
+                    You said: "<bdi>{pronunciationResult.transcription}</bdi>"
                   </p>
                   <p className="text-sm text-gray-600">
                     {pronunciationResult.feedback}
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, ChevronRight, Info, Plus } from "lucide-react";
+import { speak } from "../utils/tts";
+import { storageService } from "../services/StorageService";
+import {
+  wordInsightService,
+  type RelatedWord,
+  type WordInsight,
+} from "../services/WordInsightService";
+import {
+  getTextDirection,
+  getTtsLocale,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+
+interface WordDetailsPanelProps {
+  word: string; // Dictionary form, in the target language
+  sourceWord: string;
+  language: SupportedLanguage;
+  sourceLanguage: SupportedLanguage;
+}
+
+/**
+ * Collapsible definition, part of speech, synonyms and antonyms of a word,
+ * only generated when the learner opens the panel. A related word is read
+ * aloud on click and can be saved to the vocabulary.
+ */
+export function WordDetailsPanel({
+  word,
+  sourceWord,
+  language,
+  sourceLanguage,
+}: WordDetailsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [insight, setInsight] = useState<WordInsight | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+  const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
+  // The word, meaning and language pair the panel currently shows, so
+  // details arriving for a previous one are dropped
+  const currentKey = `${language}|${sourceLanguage}|${sourceWord}|${word}`;
+  const latestKey = useRef(currentKey);
+
+  // Another word starts closed, without the previous word's details
+  useEffect(() => {
+    latestKey.current = currentKey;
+    setIsOpen(false);
+    setInsight(null);
+    setIsLoading(false);
+    setHasFailed(false);
+    setSavedWords(new Set());
+  }, [currentKey]);
+
+  const loadInsight = async () => {
+    const requestKey = currentKey;
+    setIsLoading(true);
+    setHasFailed(false);
+    try {
+      const result = await wordInsightService.getInsight(
+        word,
+        sourceWord,
+        language,
+        sourceLanguage
+      );
+      if (latestKey.current !== requestKey) return;
+      setInsight(result);
+      setHasFailed(!result);
+    } catch (error) {
+      console.error("[WordDetailsPanel] Failed to load details:", error);
+      if (latestKey.current !== requestKey) return;
+      setHasFailed(true);
+    } finally {
+      if (latestKey.current === requestKey) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleToggle = () => {
+    const nextOpen = !isOpen;
+    setIsOpen(nextOpen);
+    if (nextOpen && !insight && !isLoading) {
+      loadInsight();
+    }
+  };
+
+  const handleSpeak = (related: RelatedWord) => {
+    speak(related.word, getTtsLocale(language)).catch((error) =>
+      console.error("Error speaking related word:", error)
+    );
+  };
+
+  const handleSave = async (related: RelatedWord) => {
+    // Filed under its source-language word, but not met on a page
+    const wordId = await storageService.addWord(
+      language,
+      related.translation,
+      related.word,
+      sourceLanguage
+    );
+    if (wordId) {
+      setSavedWords((prev) => new Set(prev).add(related.word));
+    }
+  };
+
+  const renderRelatedWords = (label: string, related: RelatedWord[]) =>
+    related.length > 0 && (
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-500 me-1" dir="auto">
+          {label}
+        </span>
+        {related.map((entry) => (
+          <span
+            key={entry.word}
+            className="flex items-center rounded-full border border-indigo-100 bg-indigo-50 text-xs text-indigo-700"
+          >
+            <button
+              onClick={() => handleSpeak(entry)}
+              className="ps-2 pe-1 py-0.5 rounded-s-full hover:bg-indigo-100"
+              title={`Listen · ${entry.translation}`}
+            >
+              <bdi>{entry.word}</bdi>
+            </button>
+            {savedWords.has(entry.word) ? (
+              <span className="pe-1.5 ps-0.5 text-green-600" title="Saved">
+                <Check className="w-3 h-3" />
+              </span>
+            ) : (
+              <button
+                onClick={() => handleSave(entry)}
+                className="pe-1.5 ps-0.5 py-0.5 rounded-e-full hover:bg-indigo-100"
+                title={`Save "${entry.word}" to your vocabulary`}
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleToggle}
+        className="flex items-center gap-1.5 w-full"
+        aria-expanded={isOpen}
+      >
+        <Info className="w-4 h-4 text-indigo-600" />
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+          Details
+        </span>
+        {insight && (
+          <span className="text-xs text-gray-400">
+            · {insight.partOfSpeech}
+          </span>
+        )}
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 text-gray-400 ms-auto" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-gray-400 ms-auto rtl:rotate-180" />
+        )}
+      </button>
+
+      {isOpen &&
+        (isLoading ? (
+          // Skeleton loading
+          <div className="space-y-2 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-full"></div>
+            <div className="h-3 bg-gray-100 rounded w-2/3"></div>
+          </div>
+        ) : hasFailed ? (
+          <div className="text-xs text-gray-500">
+            Details unavailable.{" "}
+            <button
+              onClick={loadInsight}
+              className="text-blue-600 hover:underline"
+            >
+              Try again
+            </button>
+          </div>
+        ) : insight ? (
+          <div className="space-y-1.5">
+            <p
+              className="text-sm text-gray-800 leading-relaxed"
+              dir={getTextDirection(language)}
+            >
+              {insight.definition}
+            </p>
+            {renderRelatedWords("Synonyms:", insight.synonyms)}
+            {renderRelatedWords("Antonyms:", insight.antonyms)}
+          </div>
+        ) : null)}
+    </div>
+  );
+}
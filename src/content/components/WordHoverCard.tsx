@@ -5,19 +5,99 @@ import {
   HoverCardTrigger,
 } from "../../components/ui/hover-card";
 import { Button } from "../../components/ui/button";
-import { Volume2, Brain, BookOpen } from "lucide-react";
+import {
+  Volume2,
+  Brain,
+  BookOpen,
+  History,
+  Check,
+  Award,
+  EyeOff,
+  Pencil,
+  X,
+} from "lucide-react";
 import { speak } from "../utils/tts";
 import { storageService } from "../services/StorageService";
+import {
+  getBaseWordId,
+  type EncounterRecord,
+} from "../services/VocabularyRepository";
 import { exampleSentenceService } from "../services/ExampleSentenceService";
+import { conjugationService } from "../services/ConjugationService";
 import { QuizView } from "./QuizView";
-import type { SupportedLanguage } from "../utils/translationConfig";
+import { ConjugationPanel } from "./ConjugationPanel";
+import { WordDetailsPanel } from "./WordDetailsPanel";
+import { clearWordTranslations } from "../translation/translationCleaner";
+import { applyCorrection } from "../translation/nodeTranslator";
+import {
+  getLanguageName,
+  getTextDirection,
+  getTtsLocale,
+  withArticle,
+  type SupportedLanguage,
+  type WordGrammar,
+  type WordState,
+} from "../utils/translationConfig";
 
 interface WordData {
-  english: string;
-  translated: string;
+  source: string;
+  target: string;
+  sourceLanguage: SupportedLanguage;
+  // Stored sense of the word; the lemma until it is recorded
+  wordId?: string;
+  // Dictionary forms, when the page shows an inflected form
+  lemma?: string;
+  targetLemma?: string;
+  // How the page's form is inflected ("plural")
+  inflection?: string;
+  // Part of speech from the page, for words stored without grammar
+  partOfSpeech?: string;
   timesEncountered?: number;
 }
 
+// Past sentences shown under "You saw this word in"
+const MAX_SHOWN_ENCOUNTERS = 3;
+
+const STATE_ACTIONS: {
+  state: WordState;
+  label: string;
+  title: string;
+  icon: typeof Check;
+}[] = [
+  {
+    state: "known",
+    label: "I know this",
+    title: "Translate this word less often",
+    icon: Check,
+  },
+  {
+    state: "mastered",
+    label: "Mastered",
+    title: "Stop quizzing this word",
+    icon: Award,
+  },
+  {
+    state: "ignored",
+    label: "Ignore",
+    title: "Never translate this word",
+    icon: EyeOff,
+  },
+];
+
+/**
+ * Short label for the page an encounter happened on
+ */
+function getPageLabel(encounter: EncounterRecord): string {
+  if (encounter.pageTitle) {
+    return encounter.pageTitle;
+  }
+  try {
+    return encounter.url ? new URL(encounter.url).hostname : "";
+  } catch {
+    return "";
+  }
+}
+
 interface WordHoverCardProps {
   wordData: WordData | null;
   isOpen: boolean;
@@ -32,6 +112,15 @@ export function WordHoverCard({
   language,
 }: WordHoverCardProps) {
   const [timesEncountered, setTimesEncountered] = useState<number>(1);
+  const [wordState, setWordState] = useState<WordState | undefined>();
+  const [grammar, setGrammar] = useState<WordGrammar | undefined>();
+  const [correctedTarget, setCorrectedTarget] = useState<string | null>(null);
+  const [correctedLemmaTarget, setCorrectedLemmaTarget] = useState<
+    string | null
+  >(null);
+  const [isEditingTarget, setIsEditingTarget] = useState(false);
+  const [targetDraft, setTargetDraft] = useState("");
+  const [encounters, setEncounters] = useState<EncounterRecord[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [showQuiz, setShowQuiz] = useState(false);
   const [cachedQuestions, setCachedQuestions] = useState<Record<string, any[]>>(
@@ -40,50 +129,85 @@ export function WordHoverCard({
   const [currentWordKey, setCurrentWordKey] = useState<string>("");
   const [exampleSentence, setExampleSentence] = useState<{
     target: string;
-    english: string;
+    source: string;
   } | null>(null);
   const [isLoadingExample, setIsLoadingExample] = useState(false);
   const [isSpeakingExample, setIsSpeakingExample] = useState(false);
   const [cachedExamples, setCachedExamples] = useState<
-    Record<string, { target: string; english: string }>
+    Record<string, { target: string; source: string }>
   >({});
 
+  // A correction made in this card replaces the translation from the page
+  const targetWord = correctedTarget ?? wordData?.target ?? "";
+  const lemma = wordData?.lemma ?? wordData?.source.toLowerCase() ?? "";
+  const wordId = wordData?.wordId ?? getBaseWordId(lemma);
+  // Corrections apply to the dictionary form; an inflected word on the page
+  // shows it underneath
+  const isInflected = !!wordData && lemma !== wordData.source.toLowerCase();
+  const lemmaTarget = correctedLemmaTarget ?? wordData?.targetLemma ?? "";
+  // Older words and corrected ones have no stored grammar
+  const partOfSpeech = grammar?.partOfSpeech ?? wordData?.partOfSpeech;
+
   // Track word changes and reset quiz state
   useEffect(() => {
-    if (wordData?.english) {
-      const wordKey = `${wordData.english.toLowerCase()}_${language}`;
+    if (wordData?.source) {
+      // Keyed by translation too: each sense gets its own example and quiz
+      const wordKey = `${wordData.source.toLowerCase()}_${wordData.target.toLowerCase()}_${wordData.sourceLanguage}_${language}`;
       setCurrentWordKey(wordKey);
 
       // Reset quiz view when word changes
       setShowQuiz(false);
+      setCorrectedTarget(null);
+      setCorrectedLemmaTarget(null);
+      setIsEditingTarget(false);
 
       const fetchWordData = async () => {
-        const storedWord = await storageService.getWord(
-          language,
-          wordData.english.toLowerCase()
-        );
+        const storedWord = await storageService.getWord(language, wordId);
         if (storedWord) {
           setTimesEncountered(storedWord.timesEncountered);
         } else {
           setTimesEncountered(1);
         }
+        setWordState(storedWord?.state);
+        setGrammar(storedWord?.grammar);
+
+        const wordEncounters = await storageService.getWordEncounters(
+          language,
+          wordId
+        );
+        setEncounters(
+          wordEncounters
+            .filter((encounter) => encounter.sentence)
+            .slice(0, MAX_SHOWN_ENCOUNTERS)
+        );
       };
       fetchWordData();
 
       // Generate example sentence
       generateExampleSentence(wordKey);
     }
-  }, [wordData?.english, language]);
+  }, [
+    wordData?.source,
+    wordData?.target,
+    wordData?.wordId,
+    wordData?.sourceLanguage,
+    language,
+  ]);
 
-  const generateExampleSentence = async (wordKey: string) => {
+  /**
+   * Passing a target (after a correction) bypasses the cached example,
+   * which was written for the old translation
+   */
+  const generateExampleSentence = async (wordKey: string, target?: string) => {
     // Check if we have a cached example for this word
-    if (cachedExamples[wordKey]) {
+    if (!target && cachedExamples[wordKey]) {
       console.log("[WordHoverCard] Using cached example sentence");
       setExampleSentence(cachedExamples[wordKey]);
       return;
     }
 
     if (!wordData || !anchorEl) return;
+    const exampleTarget = target ?? wordData.target;
 
     setIsLoadingExample(true);
     setExampleSentence(null);
@@ -94,13 +218,14 @@ export function WordHoverCard({
       const pageContext = parentElement?.textContent?.trim() || "";
 
       console.log(
-        `[WordHoverCard] Generating example for "${wordData.translated}" with context: "${pageContext.substring(0, 100)}..."`
+        `[WordHoverCard] Generating example for "${exampleTarget}" with context: "${pageContext.substring(0, 100)}..."`
       );
 
       const example = await exampleSentenceService.generateExampleSentence(
-        wordData.english,
-        wordData.translated,
+        wordData.source,
+        exampleTarget,
         language,
+        wordData.sourceLanguage,
         pageContext
       );
 
@@ -117,7 +242,7 @@ export function WordHoverCard({
       console.error("[WordHoverCard] Failed to generate example:", error);
       setExampleSentence({
         target: "Example unavailable",
-        english: "Could not generate example sentence",
+        source: "Could not generate example sentence",
       });
     } finally {
       setIsLoadingExample(false);
@@ -130,8 +255,8 @@ export function WordHoverCard({
     setIsSpeaking(true);
     try {
       // Get language code for TTS
-      const langCode = language === "french" ? "fr-FR" : "es-ES";
-      await speak(wordData.translated, langCode);
+      const langCode = getTtsLocale(language);
+      await speak(targetWord, langCode);
     } catch (error) {
       console.error("Error speaking word:", error);
     } finally {
@@ -145,7 +270,7 @@ export function WordHoverCard({
     setIsSpeakingExample(true);
     try {
       // Get language code for TTS
-      const langCode = language === "french" ? "fr-FR" : "es-ES";
+      const langCode = getTtsLocale(language);
       await speak(exampleSentence.target, langCode);
     } catch (error) {
       console.error("Error speaking example sentence:", error);
@@ -154,6 +279,68 @@ export function WordHoverCard({
     }
   };
 
+  const handleStartCorrection = () => {
+    setTargetDraft(isInflected && lemmaTarget ? lemmaTarget : targetWord);
+    setIsEditingTarget(true);
+  };
+
+  const handleSaveCorrection = async () => {
+    if (!wordData) return;
+
+    const target = targetDraft.trim();
+    if (!target || target === (isInflected ? lemmaTarget : targetWord)) {
+      setIsEditingTarget(false);
+      return;
+    }
+
+    await storageService.correctTranslation(
+      language,
+      lemma,
+      target,
+      wordData.sourceLanguage,
+      wordId
+    );
+    applyCorrection(
+      wordId,
+      target,
+      isInflected ? lemmaTarget : targetWord
+    );
+    // The gender and article were given for the old translation
+    setGrammar(undefined);
+    // Inflected words on the page show the corrected dictionary form too
+    setCorrectedTarget(target);
+    if (isInflected) {
+      setCorrectedLemmaTarget(target);
+    }
+    setIsEditingTarget(false);
+
+    // Quiz questions were built around the old translation
+    setCachedQuestions((prev) => {
+      const next = { ...prev };
+      delete next[currentWordKey];
+      return next;
+    });
+    generateExampleSentence(currentWordKey, target);
+  };
+
+  const handleSetState = async (state: WordState) => {
+    if (!wordData) return;
+
+    // Clicking the active state again clears it
+    const nextState = wordState === state ? null : state;
+    const updated = await storageService.setWordState(
+      language,
+      wordId,
+      nextState
+    );
+    if (!updated) return;
+
+    setWordState(updated.state);
+    if (nextState === "ignored") {
+      clearWordTranslations(lemma);
+    }
+  };
+
   const handleStartQuiz = () => {
     setShowQuiz(true);
   };
@@ -171,6 +358,11 @@ export function WordHoverCard({
 
   if (!wordData || !anchorEl) return null;
 
+  // The card is laid out in the target language's direction; each text
+  // keeps the direction of its own language
+  const direction = getTextDirection(language);
+  const sourceDirection = getTextDirection(wordData.sourceLanguage);
+
   return (
     <HoverCard openDelay={200} closeDelay={300}>
       <HoverCardTrigger asChild>
@@ -188,6 +380,7 @@ export function WordHoverCard({
       </HoverCardTrigger>
       <HoverCardContent
         className="w-80 p-0 h-[400px] flex flex-col"
+        dir={direction}
         side="top"
         align="center"
         sideOffset={8}
@@ -199,24 +392,101 @@ export function WordHoverCard({
               <img
                 src={chrome.runtime.getURL("public/Logo.png")}
                 alt="Tower of Babel"
-                className="absolute top-2 right-2 w-5 h-5 opacity-50"
+                className="absolute top-2 end-2 w-5 h-5 opacity-50"
               />
               <div className="space-y-2">
                 <div className="flex flex-col gap-1">
                   <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                    English
+                    {getLanguageName(wordData.sourceLanguage)}
                   </span>
-                  <span className="text-xl font-bold text-gray-900">
-                    {wordData.english}
+                  <span
+                    className="text-xl font-bold text-gray-900"
+                    dir={sourceDirection}
+                  >
+                    {wordData.source}
                   </span>
+                  {isInflected && lemmaTarget && (
+                    <span
+                      className="text-xs text-gray-500"
+                      title="Dictionary form"
+                    >
+                      {wordData.inflection
+                        ? `${wordData.inflection} of`
+                        : "from"}{" "}
+                      <bdi className="font-medium">{lemma}</bdi>{" "}
+                      {direction === "rtl" ? "←" : "→"}{" "}
+                      <bdi>{lemmaTarget}</bdi>
+                    </span>
+                  )}
                 </div>
                 <div className="flex flex-col gap-1">
                   <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                    {language === "french" ? "French" : "Spanish"}
-                  </span>
-                  <span className="text-xl font-bold text-blue-600">
-                    {wordData.translated}
+                    {getLanguageName(language)}
                   </span>
+                  {isEditingTarget ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        value={targetDraft}
+                        onChange={(e) => setTargetDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleSaveCorrection();
+                          if (e.key === "Escape") setIsEditingTarget(false);
+                        }}
+                        autoFocus
+                        dir={direction}
+                        className="flex-1 min-w-0 px-2 py-0.5 border border-blue-300 rounded text-lg font-bold text-blue-600 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={handleSaveCorrection}
+                        className="p-1 rounded hover:bg-blue-100 text-green-600"
+                        title="Save correction"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setIsEditingTarget(false)}
+                        className="p-1 rounded hover:bg-blue-100 text-gray-500"
+                        title="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <bdi className="text-xl font-bold text-blue-600">
+                        {targetWord}
+                      </bdi>
+                      <button
+                        onClick={handleStartCorrection}
+                        className="p-1 rounded hover:bg-blue-100 text-gray-400 hover:text-gray-600"
+                        title={
+                          isInflected
+                            ? `Correct the translation of "${lemma}"`
+                            : "Correct this translation"
+                        }
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                  {grammar?.gender && (
+                    <span className="text-xs text-gray-500">
+                      <bdi className="font-medium">
+                        {withArticle(
+                          lemmaTarget || targetWord,
+                          grammar.article,
+                          language
+                        )}
+                      </bdi>{" "}
+                      · {grammar.gender}
+                      {grammar.plural && (
+                        <>
+                          {" "}
+                          · pl. <bdi>{grammar.plural}</bdi>
+                        </>
+                      )}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -224,8 +494,8 @@ export function WordHoverCard({
             {/* Body with Stats - Scrollable */}
             <div className="flex-1 overflow-y-auto">
               <div className="px-4 py-3 space-y-3">
-                {/* Stats */}
-                <div className="flex items-center gap-2 text-sm">
+                {/* Stats, one English phrase whatever the card's direction */}
+                <div className="flex items-center gap-2 text-sm" dir="auto">
                   <div className="flex items-center gap-1.5 text-gray-600">
                     <div className="w-2 h-2 rounded-full bg-green-500"></div>
                     <span className="font-medium">Seen:</span>
@@ -238,6 +508,67 @@ export function WordHoverCard({
                   </div>
                 </div>
 
+                {/* Learner-set word state */}
+                <div className="flex gap-1.5">
+                  {STATE_ACTIONS.map(({ state, label, title, icon: Icon }) => (
+                    <button
+                      key={state}
+                      onClick={() => handleSetState(state)}
+                      title={title}
+                      className={`flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md border text-xs font-medium transition-colors ${
+                        wordState === state
+                          ? "bg-blue-600 border-blue-600 text-white"
+                          : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                      }`}
+                    >
+                      <Icon className="w-3.5 h-3.5" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Definition and related words of the dictionary form */}
+                <div className="border-t border-gray-100" />
+                <WordDetailsPanel
+                  word={lemmaTarget || targetWord}
+                  sourceWord={lemma}
+                  language={language}
+                  sourceLanguage={wordData.sourceLanguage}
+                />
+
+                {/* Where the word was seen before */}
+                {encounters.length > 0 && (
+                  <>
+                    <div className="border-t border-gray-100" />
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-1.5">
+                        <History className="w-4 h-4 text-gray-500" />
+                        <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                          You saw this word in
+                        </span>
+                      </div>
+                      <ul className="space-y-2">
+                        {encounters.map((encounter) => (
+                          <li
+                            key={encounter.id ?? encounter.date}
+                            className="text-xs leading-relaxed"
+                          >
+                            <p
+                              className="text-gray-700 italic"
+                              dir={sourceDirection}
+                            >
+                              "{encounter.sentence}"
+                            </p>
+                            <p className="text-gray-400 truncate">
+                              {getPageLabel(encounter)}
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </>
+                )}
+
                 {/* Divider */}
                 <div className="border-t border-gray-100" />
 
@@ -261,7 +592,10 @@ export function WordHoverCard({
                     // Example sentence content
                     <div className="space-y-1.5 bg-indigo-50 p-3 rounded-lg border border-indigo-100">
                       <div className="flex items-start justify-between gap-2">
-                        <p className="text-sm font-semibold text-indigo-700 leading-relaxed flex-1">
+                        <p
+                          className="text-sm font-semibold text-indigo-700 leading-relaxed flex-1"
+                          dir={direction}
+                        >
                           {exampleSentence.target}
                         </p>
                         <button
@@ -275,13 +609,28 @@ export function WordHoverCard({
                           <Volume2 className={`w-4 h-4 text-indigo-600 ${isSpeakingExample ? "animate-pulse" : ""}`} />
                         </button>
                       </div>
-                      <p className="text-xs text-gray-600 leading-relaxed">
-                        {exampleSentence.english}
+                      <p
+                        className="text-xs text-gray-600 leading-relaxed"
+                        dir={sourceDirection}
+                      >
+                        {exampleSentence.source}
                       </p>
                     </div>
                   ) : null}
                 </div>
 
+                {/* Verb forms, for languages that conjugate by person */}
+                {partOfSpeech === "verb" &&
+                  conjugationService.hasConjugations(language) && (
+                    <>
+                      <div className="border-t border-gray-100" />
+                      <ConjugationPanel
+                        verb={lemmaTarget || targetWord}
+                        language={language}
+                      />
+                    </>
+                  )}
+
                 {/* Divider */}
                 <div className="border-t border-gray-100" />
 
@@ -313,8 +662,10 @@ export function WordHoverCard({
         ) : (
           <div className="h-full overflow-y-auto">
             <QuizView
-              englishWord={wordData.english}
-              translatedWord={wordData.translated}
+              sourceWord={wordData.source}
+              targetWord={targetWord}
+              wordId={wordId}
+              sourceLanguage={wordData.sourceLanguage}
               language={language}
               onEndQuiz={handleEndQuiz}
               cachedQuestions={cachedQuestions[currentWordKey] || null}
@@ -1,9 +1,18 @@
 import { createContext, useContext, useState, ReactNode } from "react";
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  DEFAULT_CONFIG,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
 
 interface WordData {
-  english: string;
-  translated: string;
+  source: string;
+  target: string;
+  sourceLanguage: SupportedLanguage;
+  wordId?: string;
+  lemma?: string;
+  targetLemma?: string;
+  inflection?: string;
+  partOfSpeech?: string;
 }
 
 interface WordHoverContextValue {
@@ -23,7 +32,9 @@ export function WordHoverProvider({ children }: { children: ReactNode }) {
   const [wordData, setWordData] = useState<WordData | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
-  const [language, setLanguage] = useState<SupportedLanguage>("french");
+  const [language, setLanguage] = useState<SupportedLanguage>(
+    DEFAULT_CONFIG.activeLanguage
+  );
 
   const show = (
     data: WordData,
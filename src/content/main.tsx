@@ -8,7 +8,11 @@ import { translatePage, stopTranslation } from "./translation/pageTranslator";
 import { clearTranslations } from "./translation/translationCleaner";
 import { setTooltipHandler } from "./translation/nodeTranslator";
 import { initializeSelectionHandler } from "./selectionHandler";
-import type { SupportedLanguage } from "./utils/translationConfig";
+import { showSitePrompt, hideSitePrompt } from "./sitePrompt";
+import {
+  DEFAULT_SITE_POLICY,
+  type SupportedLanguage,
+} from "./utils/translationConfig";
 import "./content.css";
 
 function WordHoverContextExporter() {
@@ -21,14 +25,21 @@ function WordHoverContextExporter() {
   return null;
 }
 
+// Set when the user accepts the "ask" prompt; lasts until the page reloads
+let siteApprovedThisVisit = false;
+
 /**
- * Check if onboarding is complete and translation is enabled
+ * Check if onboarding is complete, translation is enabled and this site's
+ * policy allows it. Sites set to "ask" show a prompt instead.
  */
 async function shouldInitialize(): Promise<boolean> {
   try {
     const result = await chrome.storage.local.get(["config", "system"]);
     const config = result.config || {};
     const system = result.system || {};
+    const sitePolicy =
+      (await storageService.getSitePolicy(location.origin)) ||
+      DEFAULT_SITE_POLICY;
 
     const onboardingComplete = system.onboardingComplete || false;
     const translationEnabled = config.translationEnabled !== false;
@@ -36,9 +47,41 @@ async function shouldInitialize(): Promise<boolean> {
     console.log("Initialization check:", {
       onboardingComplete,
       translationEnabled,
+      siteMode: sitePolicy.mode,
     });
 
-    return onboardingComplete && translationEnabled;
+    if (!onboardingComplete || !translationEnabled) {
+      return false;
+    }
+
+    if (sitePolicy.mode === "never") {
+      return false;
+    }
+
+    if (sitePolicy.mode === "ask" && !siteApprovedThisVisit) {
+      showSitePrompt({
+        onTranslate: () => {
+          siteApprovedThisVisit = true;
+          initializeAndTranslate();
+        },
+        onAlways: async () => {
+          await storageService.setSitePolicy(location.origin, {
+            ...sitePolicy,
+            mode: "always",
+          });
+          initializeAndTranslate();
+        },
+        onNever: () => {
+          storageService.setSitePolicy(location.origin, {
+            ...sitePolicy,
+            mode: "never",
+          });
+        },
+      });
+      return false;
+    }
+
+    return true;
   } catch (error) {
     console.error("Error checking initialization status:", error);
     return false;
@@ -97,6 +140,13 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     handleLanguageChange(message.language);
   }
 
+  if (
+    message.type === "SITE_POLICY_CHANGED" &&
+    message.origin === location.origin
+  ) {
+    handleSitePolicyChange();
+  }
+
   sendResponse({ success: true });
   return true;
 });
@@ -107,8 +157,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 async function handleToggleChange(enabled: boolean): Promise<void> {
   if (enabled) {
     // User turned translation ON
-    console.log("Translation enabled - starting translation");
-    await initializeAndTranslate();
+    if (await shouldInitialize()) {
+      console.log("Translation enabled - starting translation");
+      await initializeAndTranslate();
+    }
   } else {
     // User turned translation OFF
     console.log("Translation disabled - stopping and clearing translations");
@@ -140,12 +192,8 @@ async function handleLanguageChange(
     translationService.reset();
     await translationService.switchLanguage(newLanguage);
 
-    // Step 4: Re-translate page with new language if enabled
-    const result = await chrome.storage.local.get("config");
-    const config = result.config || {};
-    const isEnabled = config.translationEnabled !== false;
-
-    if (isEnabled) {
+    // Step 4: Re-translate page with new language if enabled on this site
+    if (await shouldInitialize()) {
       console.log("Re-translating page with new language...");
       await translatePage();
 
@@ -159,6 +207,27 @@ async function handleLanguageChange(
   }
 }
 
+/**
+ * Handle this site's policy being edited from the popup: start over so the
+ * new mode and difficulty/density overrides take effect
+ */
+async function handleSitePolicyChange(): Promise<void> {
+  console.log("Site policy changed - re-evaluating translation");
+
+  try {
+    hideSitePrompt();
+    stopTranslation();
+    clearTranslations();
+    translationService.reset();
+
+    if (await shouldInitialize()) {
+      await initializeAndTranslate();
+    }
+  } catch (error) {
+    console.error("Error handling site policy change:", error);
+  }
+}
+
 /**
  * Inject microphone permission iframe
  */
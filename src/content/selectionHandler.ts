@@ -20,6 +20,7 @@ export function initializeSelectionHandler(): void {
       handleTranslateSelection(
         message.text,
         message.language,
+        message.sourceLanguage,
         message.simplify || false
       );
       sendResponse({ success: true });
@@ -45,6 +46,7 @@ export function initializeSelectionHandler(): void {
 async function handleTranslateSelection(
   text: string,
   language: SupportedLanguage,
+  sourceLanguage: SupportedLanguage,
   simplify: boolean = false
 ): Promise<void> {
   console.log(
@@ -68,6 +70,7 @@ async function handleTranslateSelection(
     const translation = await selectionTranslationService.translateSelectedText(
       text,
       language,
+      sourceLanguage,
       simplify
     );
 
@@ -0,0 +1,275 @@
+import {
+  getLanguageInfo,
+  getLanguageName,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  STORES,
+} from "../utils/database";
+import { isExtensionContext, callBackground } from "../utils/backgroundRpc";
+
+// First, second and third person singular, then plural
+const PERSON_COUNT = 6;
+
+/**
+ * The forms of one tense, each with its pronoun ("je mange")
+ */
+export interface ConjugatedTense {
+  tense: string;
+  forms: string[];
+}
+
+/**
+ * Conjugation of a verb in the tenses of its language's registry entry
+ */
+export interface ConjugationTable {
+  language: SupportedLanguage;
+  lemma: string;
+  tenses: ConjugatedTense[];
+  createdAt: string;
+}
+
+/**
+ * Response from Prompt API with the forms of each tense
+ */
+interface ConjugationResponse {
+  tenses: ConjugatedTense[];
+}
+
+/**
+ * Conjugation Service - Generates verb conjugation tables with the Prompt
+ * API and keeps them in IndexedDB, one per verb, so each verb is only
+ * generated once
+ */
+class ConjugationService {
+  private session: any = null;
+  private isInitialized = false;
+  private initPromise: Promise<void> | null = null;
+
+  /**
+   * Initialize the Prompt API session. Concurrent calls share one session;
+   * a failed attempt can be retried.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized && this.session) {
+      return;
+    }
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = (async () => {
+      try {
+        const availability = await (self as any).LanguageModel.availability();
+
+        if (availability === "unavailable") {
+          throw new Error("Prompt API is not available");
+        }
+
+        const params = await (self as any).LanguageModel.params();
+
+        // Conjugation has one right answer, so keep sampling tight
+        this.session = await (self as any).LanguageModel.create({
+          temperature: 0.2,
+          topK: params.defaultTopK,
+        });
+
+        this.isInitialized = true;
+        console.log("[ConjugationService] Initialized successfully");
+      } catch (error) {
+        console.error("[ConjugationService] Failed to initialize:", error);
+        throw error;
+      } finally {
+        this.initPromise = null;
+      }
+    })();
+
+    return this.initPromise;
+  }
+
+  /**
+   * Whether verbs of a language get a conjugation panel
+   */
+  hasConjugations(language: SupportedLanguage): boolean {
+    return !!getLanguageInfo(language).tenses;
+  }
+
+  /**
+   * Conjugation table of a verb (dictionary form), from the cache or
+   * generated and cached; null when it could not be generated
+   */
+  async getConjugation(
+    lemma: string,
+    language: SupportedLanguage
+  ): Promise<ConjugationTable | null> {
+    const verb = lemma.trim().toLowerCase();
+    const cached = await this.getCached(language, verb);
+    if (cached) {
+      return cached;
+    }
+
+    const table = await this.generateConjugation(verb, language);
+    if (table) {
+      await this.saveCached(table);
+    }
+    return table;
+  }
+
+  /**
+   * Get a cached conjugation table, or null on a miss
+   */
+  async getCached(
+    language: SupportedLanguage,
+    lemma: string
+  ): Promise<ConjugationTable | null> {
+    if (!isExtensionContext()) {
+      return callBackground<ConjugationTable | null>(
+        "conjugations.get",
+        language,
+        lemma
+      );
+    }
+
+    try {
+      const db = await openDatabase();
+      const table: ConjugationTable | undefined = await promisifyRequest(
+        db
+          .transaction(STORES.conjugations, "readonly")
+          .objectStore(STORES.conjugations)
+          .get([language, lemma])
+      );
+      return table ?? null;
+    } catch (error) {
+      console.error("[ConjugationService] Error reading cache:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a conjugation table
+   */
+  async saveCached(table: ConjugationTable): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("conjugations.set", table);
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.conjugations, "readwrite");
+      transaction.objectStore(STORES.conjugations).put(table);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("[ConjugationService] Error writing cache:", error);
+    }
+  }
+
+  /**
+   * Ask the model for every tense of the language's registry entry. Tenses
+   * it leaves out or answers without six forms are dropped.
+   */
+  private async generateConjugation(
+    lemma: string,
+    language: SupportedLanguage
+  ): Promise<ConjugationTable | null> {
+    const tenses = getLanguageInfo(language).tenses;
+    if (!tenses) {
+      return null;
+    }
+
+    if (!this.isInitialized || !this.session) {
+      await this.initialize();
+    }
+
+    const languageName = getLanguageName(language);
+
+    const schema = {
+      type: "object",
+      properties: {
+        tenses: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              tense: { type: "string", enum: tenses },
+              forms: {
+                type: "array",
+                items: { type: "string" },
+                minItems: PERSON_COUNT,
+                maxItems: PERSON_COUNT,
+              },
+            },
+            required: ["tense", "forms"],
+          },
+        },
+      },
+      required: ["tenses"],
+    };
+
+    const prompt = `You are a ${languageName} grammar reference. Conjugate the ${languageName} verb "${lemma}".
+
+Give these tenses, in this order: ${tenses.map((tense) => `"${tense}"`).join(", ")}.
+
+Rules:
+1. Give exactly ${PERSON_COUNT} forms per tense: first, second and third person singular, then first, second and third person plural
+2. Write each form with its subject pronoun, as it would be said ("je mange", "ich habe gegessen"); use the masculine pronoun where the third person has several
+3. Include auxiliary verbs and any particle the tense needs ("que" for the French subjunctive)
+4. Use standard spelling with all accents, in lowercase except where ${languageName} requires capitals
+5. If "${lemma}" is reflexive, include the reflexive pronoun in every form
+
+Return a JSON object with a "tenses" array, one entry per tense.`;
+
+    try {
+      console.log(`[ConjugationService] Conjugating "${lemma}" (${language})`);
+
+      const response = await this.session.prompt(prompt, {
+        responseConstraint: schema,
+      });
+      const parsed: ConjugationResponse = JSON.parse(response);
+
+      // Keep the registry's order and one entry per tense
+      const conjugated = tenses.flatMap((tense) => {
+        const entry = parsed.tenses?.find(
+          (candidate) => candidate.tense === tense
+        );
+        const forms = entry?.forms?.map((form) => form.trim());
+        return forms?.length === PERSON_COUNT && forms.every(Boolean)
+          ? [{ tense, forms }]
+          : [];
+      });
+
+      if (conjugated.length === 0) {
+        throw new Error("No complete tense in response");
+      }
+
+      return {
+        language,
+        lemma,
+        tenses: conjugated,
+        createdAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error(
+        `[ConjugationService] Failed to conjugate "${lemma}":`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Destroy the session
+   */
+  destroy(): void {
+    if (this.session) {
+      this.session.destroy();
+      this.session = null;
+      this.isInitialized = false;
+      console.log("[ConjugationService] Session destroyed");
+    }
+  }
+}
+
+export const conjugationService = new ConjugationService();
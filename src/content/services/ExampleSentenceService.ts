@@ -1,11 +1,14 @@
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  getLanguageName,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
 
 /**
  * Response structure for example sentence generation
  */
 interface ExampleSentenceResponse {
-  target: string; // Sentence in target language (French/Spanish)
-  english: string; // English translation
+  target: string; // Sentence in target language (e.g. French)
+  source: string; // Translation in the learner's source language
 }
 
 /**
@@ -52,16 +55,18 @@ class ExampleSentenceService {
    * Generate a contextual example sentence
    */
   async generateExampleSentence(
-    englishWord: string,
-    translatedWord: string,
+    sourceWord: string,
+    targetWord: string,
     language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage,
     pageContext?: string
   ): Promise<ExampleSentenceResponse> {
     if (!this.isInitialized || !this.session) {
       await this.initialize();
     }
 
-    const languageName = language === "french" ? "French" : "Spanish";
+    const languageName = getLanguageName(language);
+    const sourceLanguageName = getLanguageName(sourceLanguage);
 
     // Build context prompt if page context is provided
     const contextPrompt = pageContext
@@ -71,7 +76,7 @@ class ExampleSentenceService {
 Try to create an example sentence that relates to this context or uses a similar theme.`
       : `Create a general, practical example that would be useful for everyday conversation.`;
 
-    const prompt = `You are a language learning assistant. Generate a simple example sentence using the ${languageName} word "${translatedWord}" (${englishWord} in English).
+    const prompt = `You are a language learning assistant. Generate a simple example sentence using the ${languageName} word "${targetWord}" (${sourceWord} in ${sourceLanguageName}).
 
 ${contextPrompt}
 
@@ -79,24 +84,24 @@ Requirements:
 1. Use A1-A2 level vocabulary (beginner-friendly)
 2. Keep the sentence 5-10 words long
 3. Make it natural and practical for real-world use
-4. Ensure the word "${translatedWord}" is used correctly in context
+4. Ensure the word "${targetWord}" is used correctly in context
 5. Prefer common, everyday scenarios (food, family, hobbies, daily activities, etc.)
 
 Return ONLY a JSON object with this exact format:
 {
   "target": "the example sentence in ${languageName}",
-  "english": "the English translation of the sentence"
+  "source": "the ${sourceLanguageName} translation of the sentence"
 }
 
 Example format:
 {
   "target": "Le chat dort sur le canapé",
-  "english": "The cat is sleeping on the couch"
+  "source": "The cat is sleeping on the couch"
 }`;
 
     try {
       console.log(
-        `[ExampleSentenceService] Generating example for "${translatedWord}" (${englishWord})`
+        `[ExampleSentenceService] Generating example for "${targetWord}" (${sourceWord})`
       );
 
       const response = await this.session.prompt(prompt);
@@ -118,12 +123,12 @@ Example format:
       const result: ExampleSentenceResponse = JSON.parse(cleaned);
 
       // Validate response structure
-      if (!result.target || !result.english) {
+      if (!result.target || !result.source) {
         throw new Error("Invalid response structure");
       }
 
       console.log(
-        `[ExampleSentenceService] Generated: "${result.target}" → "${result.english}"`
+        `[ExampleSentenceService] Generated: "${result.target}" → "${result.source}"`
       );
 
       return result;
@@ -135,8 +140,8 @@ Example format:
 
       // Fallback: Return a simple template
       return {
-        target: `Example with "${translatedWord}" unavailable`,
-        english: "Could not generate example sentence",
+        target: `Example with "${targetWord}" unavailable`,
+        source: "Could not generate example sentence",
       };
     }
   }
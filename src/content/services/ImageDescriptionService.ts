@@ -1,4 +1,31 @@
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  DEFAULT_CONFIG,
+  getLanguageName,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+
+/**
+ * Build the one-word identification prompt for the given language
+ */
+function buildSystemPrompt(language: SupportedLanguage): string {
+  const languageName = getLanguageName(language);
+
+  return `You are an image identification assistant. Your task is to identify what you see in an image using ONLY ONE WORD in ${languageName}.
+
+Rules:
+- Use only ONE word (singular noun preferred)
+- Use simple, common ${languageName} words
+- Do not be descriptive or use phrases
+- Just provide the word that best represents the main subject of the image
+- Return ONLY the word, nothing else
+- No punctuation, no explanations
+
+Examples (shown in English):
+- Picture of a cat → "cat"
+- Image of a mountain → "mountain"
+- Photo of a person smiling → "person"
+- Drawing of a tree → "tree"`;
+}
 
 /**
  * Image Description Service - Uses Prompt API to describe images
@@ -30,21 +57,7 @@ class ImageDescriptionService {
       this.session = await (self as any).LanguageModel.create({
         temperature: params.defaultTemperature,
         topK: params.defaultTopK,
-        systemPrompt: `You are an image identification assistant. Your task is to identify what you see in an image using ONLY ONE WORD in English.
-
-Rules:
-- Use only ONE word (singular noun preferred)
-- Use simple, common English words
-- Do not be descriptive or use phrases
-- Just provide the word that best represents the main subject of the image
-- Return ONLY the word, nothing else
-- No punctuation, no explanations
-
-Examples:
-- Picture of a cat → "cat"
-- Image of a mountain → "mountain"
-- Photo of a person smiling → "person"
-- Drawing of a tree → "tree"`,
+        systemPrompt: buildSystemPrompt(DEFAULT_CONFIG.sourceLanguage),
       });
 
       this.isInitialized = true;
@@ -58,9 +71,13 @@ Examples:
   /**
    * Describe an image using one word
    * @param imageUrl - URL of the image or base64 data URL
-   * @returns English word describing the image
+   * @param sourceLanguage - Language the word should be in
+   * @returns Word in the source language describing the image
    */
-  async describeImage(imageUrl: string): Promise<string> {
+  async describeImage(
+    imageUrl: string,
+    sourceLanguage: SupportedLanguage = DEFAULT_CONFIG.sourceLanguage
+  ): Promise<string> {
     try {
       // Fetch the image and convert to blob if it's a URL
       let imageBlob: Blob;
@@ -83,21 +100,7 @@ Examples:
         initialPrompts: [
           {
             role: "system",
-            content: `You are an image identification assistant. Your task is to identify what you see in an image using ONLY ONE WORD in English.
-
-Rules:
-- Use only ONE word (singular noun preferred)
-- Use simple, common English words
-- Do not be descriptive or use phrases
-- Just provide the word that best represents the main subject of the image
-- Return ONLY the word, nothing else
-- No punctuation, no explanations
-
-Examples:
-- Picture of a cat → "cat"
-- Image of a mountain → "mountain"
-- Photo of a person smiling → "person"
-- Drawing of a tree → "tree"`,
+            content: buildSystemPrompt(sourceLanguage),
           },
         ],
         expectedInputs: [{ type: "image" }],
@@ -110,8 +113,9 @@ Examples:
           content: [
             {
               type: "text",
-              value:
-                "Identify this image using EXACTLY ONE WORD. Only respond with a single English word, nothing else.",
+              value: `Identify this image using EXACTLY ONE WORD. Only respond with a single ${getLanguageName(
+                sourceLanguage
+              )} word, nothing else.`,
             },
             { type: "image", value: imageBlob },
           ],
@@ -125,7 +129,7 @@ Examples:
       const cleaned = result.trim().toLowerCase();
 
       // Extract just the first word (before any space or punctuation)
-      const firstWord = cleaned.split(/[\s.,;:!?]+/)[0].replace(/[^a-z]/g, "");
+      const firstWord = cleaned.split(/[\s.,;:!?]+/)[0].replace(/[^\p{L}]/gu, "");
 
       if (!firstWord || firstWord.length === 0) {
         console.warn(
@@ -0,0 +1,95 @@
+export interface DetectedLanguage {
+  detectedLanguage: string; // BCP 47 tag, e.g. "fr"
+  confidence: number; // 0-1
+}
+
+/**
+ * Language Detector Service - Identifies the language of page text using
+ * the built-in LanguageDetector API
+ */
+class LanguageDetectorService {
+  private detector: any = null;
+  private initPromise: Promise<boolean> | null = null;
+
+  /**
+   * Create the detector. Resolves to false if the API can't be used so
+   * callers can fall back to declared `lang` attributes.
+   */
+  async initialize(): Promise<boolean> {
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = (async () => {
+      try {
+        if (!("LanguageDetector" in self)) {
+          console.warn(
+            "[LanguageDetectorService] LanguageDetector API not available"
+          );
+          return false;
+        }
+
+        const availability = await (
+          self as any
+        ).LanguageDetector.availability();
+        console.log("[LanguageDetectorService] Availability:", availability);
+
+        if (availability === "unavailable") {
+          return false;
+        }
+
+        this.detector = await (self as any).LanguageDetector.create();
+        console.log("[LanguageDetectorService] Initialized");
+        return true;
+      } catch (error) {
+        console.error(
+          "[LanguageDetectorService] Failed to initialize:",
+          error
+        );
+        this.detector = null;
+        return false;
+      }
+    })();
+
+    return this.initPromise;
+  }
+
+  /**
+   * Detect the most likely language of a piece of text
+   */
+  async detect(text: string): Promise<DetectedLanguage | null> {
+    const ready = await this.initialize();
+    if (!ready || !this.detector) {
+      return null;
+    }
+
+    try {
+      const results: DetectedLanguage[] = await this.detector.detect(text);
+      const best = results[0];
+
+      // "und" means the detector couldn't determine the language
+      if (!best || best.detectedLanguage === "und") {
+        return null;
+      }
+
+      return best;
+    } catch (error) {
+      console.error("[LanguageDetectorService] Detection failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    if (this.detector) {
+      this.detector.destroy();
+      this.detector = null;
+    }
+    this.initPromise = null;
+    console.log("[LanguageDetectorService] Destroyed");
+  }
+}
+
+export const languageDetectorService = new LanguageDetectorService();
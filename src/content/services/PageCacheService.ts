@@ -0,0 +1,232 @@
+import type { WordPair } from "./PromptService";
+import type { TranslationConfig } from "../utils/translationConfig";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  STORES,
+} from "../utils/database";
+import { isExtensionContext, callBackground } from "../utils/backgroundRpc";
+
+// Limits before least-recently-used entries are evicted
+const MAX_ENTRIES = 5000;
+const MAX_TOTAL_SIZE = 10 * 1024 * 1024; // ~10 MB of serialized word pairs
+// Eviction scans the whole store, so only run it every N writes. The
+// count is lost when the service worker stops, so it also runs on startup
+// and on an alarm.
+const EVICTION_INTERVAL = 50;
+const EVICTION_ALARM = "tob-page-cache-evict";
+const EVICTION_ALARM_MINUTES = 60;
+
+interface PageCacheEntry {
+  key: string;
+  url: string;
+  wordPairs: WordPair[];
+  size: number;
+  createdAt: string;
+  lastAccessed: number;
+}
+
+/**
+ * Strip the fragment so in-page anchors share one cache
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const { origin, pathname, search } = new URL(url);
+    return `${origin}${pathname}${search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Collapse whitespace so re-rendered markup maps to the same batch
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * SHA-256 of a string as hex
+ */
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Page Cache Service - Remembers the word pairs selected for each batch of
+ * a page so revisits skip the Translator and Prompt APIs
+ */
+class PageCacheService {
+  private writesSinceEviction = 0;
+
+  /**
+   * Build the cache key for a batch. Any change to the page, the text, the
+   * language pair or the word selection settings gives a new key.
+   */
+  async buildKey(
+    url: string,
+    text: string,
+    config: TranslationConfig
+  ): Promise<{ key: string; url: string }> {
+    const normalizedUrl = normalizeUrl(url);
+    const textHash = await hashText(normalizeText(text));
+    const key = [
+      normalizedUrl,
+      textHash,
+      `${config.sourceLanguage}-${config.activeLanguage}`,
+      config.difficulty,
+      config.density,
+    ].join("|");
+    return { key, url: normalizedUrl };
+  }
+
+  /**
+   * Get the cached word pairs for a key, or null on a miss
+   */
+  async get(key: string): Promise<WordPair[] | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordPair[] | null>("pageCache.get", key);
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.pageCache, "readwrite");
+      const store = transaction.objectStore(STORES.pageCache);
+      const entry: PageCacheEntry | undefined = await promisifyRequest(
+        store.get(key)
+      );
+
+      if (!entry) {
+        return null;
+      }
+
+      // Touch the entry for LRU ordering
+      store.put({ ...entry, lastAccessed: Date.now() });
+      await transactionDone(transaction);
+
+      return entry.wordPairs;
+    } catch (error) {
+      console.error("[PageCacheService] Error reading cache:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the word pairs selected for a key
+   */
+  async set(key: string, url: string, wordPairs: WordPair[]): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("pageCache.set", key, url, wordPairs);
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.pageCache, "readwrite");
+      const entry: PageCacheEntry = {
+        key,
+        url,
+        wordPairs,
+        size: JSON.stringify(wordPairs).length,
+        createdAt: new Date().toISOString(),
+        lastAccessed: Date.now(),
+      };
+      transaction.objectStore(STORES.pageCache).put(entry);
+      await transactionDone(transaction);
+
+      this.writesSinceEviction++;
+      if (this.writesSinceEviction >= EVICTION_INTERVAL) {
+        this.writesSinceEviction = 0;
+        await this.evict();
+      }
+    } catch (error) {
+      console.error("[PageCacheService] Error writing cache:", error);
+    }
+  }
+
+  /**
+   * Evict now and then periodically. Called once by the service worker on
+   * startup.
+   */
+  scheduleEviction(): void {
+    chrome.alarms.create(EVICTION_ALARM, {
+      periodInMinutes: EVICTION_ALARM_MINUTES,
+    });
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === EVICTION_ALARM) {
+        this.evict();
+      }
+    });
+
+    this.evict();
+  }
+
+  /**
+   * Remove least-recently-used entries until the cache is within limits
+   */
+  async evict(): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("pageCache.evict");
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.pageCache, "readwrite");
+      const store = transaction.objectStore(STORES.pageCache);
+
+      // Oldest access first
+      const entries: PageCacheEntry[] = await promisifyRequest(
+        store.index("lastAccessed").getAll()
+      );
+
+      let count = entries.length;
+      let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+      let evicted = 0;
+
+      for (const entry of entries) {
+        if (count <= MAX_ENTRIES && totalSize <= MAX_TOTAL_SIZE) {
+          break;
+        }
+        store.delete(entry.key);
+        count--;
+        totalSize -= entry.size;
+        evicted++;
+      }
+
+      await transactionDone(transaction);
+
+      if (evicted > 0) {
+        console.log(`[PageCacheService] Evicted ${evicted} cache entries`);
+      }
+    } catch (error) {
+      console.error("[PageCacheService] Error evicting cache:", error);
+    }
+  }
+
+  /**
+   * Remove every cached page
+   */
+  async clear(): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("pageCache.clear");
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.pageCache, "readwrite");
+      transaction.objectStore(STORES.pageCache).clear();
+      await transactionDone(transaction);
+      console.log("[PageCacheService] Cache cleared");
+    } catch (error) {
+      console.error("[PageCacheService] Error clearing cache:", error);
+    }
+  }
+}
+
+export const pageCacheService = new PageCacheService();
@@ -1,20 +1,99 @@
-import { TranslationConfig, DENSITY_RATIOS } from "../utils/translationConfig";
+import {
+  TranslationConfig,
+  DENSITY_RATIOS,
+  PARTS_OF_SPEECH,
+  getLanguageName,
+  getLanguageInfo,
+  type Inflection,
+  type LanguageInfo,
+  type PartOfSpeech,
+  type SupportedLanguage,
+  type WordGrammar,
+} from "../utils/translationConfig";
+import { findWordMatches } from "../utils/textExtraction";
+import { segmentWords } from "../utils/segmenter";
+import { findWordForms, lemmatize } from "../utils/lemmatizer";
+import type { WordSelectionHints } from "./VocabularyRepository";
 
 /**
- * Simple word pair without position information
+ * A word and its translation in one sentence of a batch
  */
 export interface WordPair {
   original: string;
   translated: string;
+  // Index of the batch sentence the translation belongs to; absent in
+  // selections cached before senses were tracked (applies everywhere)
+  sentence?: number;
+  // Dictionary forms of `original` (as inflected on the page) and of
+  // `translated`; absent in selections cached before lemmas were tracked
+  lemma?: string;
+  targetLemma?: string;
+  // Furigana or pinyin of `translated`, for target languages shown with
+  // ruby annotations
+  reading?: string;
+  // Part of speech of `targetLemma`, with gender, article and plural for
+  // nouns of gendered languages
+  grammar?: WordGrammar;
+  // How `original` is inflected, which `translated` agrees with; absent for
+  // dictionary forms
+  inflection?: Inflection;
 }
 
 /**
- * Response from Prompt API with word pairs
+ * The dictionary form a pair is stored under in the vocabulary
+ */
+export function getPairLemma(pair: WordPair): string {
+  return pair.lemma ?? pair.original.toLowerCase();
+}
+
+/**
+ * A batch sentence with its translation from the Translator API
+ */
+export interface TranslatedSentence {
+  text: string;
+  translation: string;
+}
+
+/**
+ * A word pair as the model returns it; only ruby languages have a reading
+ * and only gendered languages a gender, article and plural
+ */
+type ModelWordPair = Required<
+  Omit<WordPair, "reading" | "grammar" | "inflection">
+> &
+  Pick<WordPair, "reading"> & {
+    inflection: string;
+    partOfSpeech: string;
+    gender?: string;
+    article?: string;
+    plural?: string;
+  };
+
+const INFLECTIONS: Inflection[] = [
+  "plural",
+  "past",
+  "participle",
+  "comparative",
+  "superlative",
+];
+
+/**
+ * Response from Prompt API with word pairs (1-based sentence numbers)
  */
 interface WordPairResponse {
-  words: WordPair[];
+  words: ModelWordPair[];
 }
 
+/**
+ * How the model should write a reading, per kind of ruby annotation
+ */
+const READING_GUIDANCE: Record<NonNullable<LanguageInfo["ruby"]>, string> = {
+  furigana:
+    'Give the reading of each translation in hiragana in "reading" ("学生" → "がくせい")',
+  pinyin:
+    'Give the pinyin of each translation, with tone marks, in "reading" ("苹果" → "píngguǒ")',
+};
+
 /**
  * Service for using Prompt API to intelligently select words to translate
  */
@@ -90,25 +169,35 @@ class PromptService {
   }
 
   /**
-   * NEW: Select words from text batch (no position tracking)
+   * NEW: Select words from text batch (no position tracking). Each pair is
+   * tied to one sentence and translated as used there, so a word with
+   * several meanings gets a translation per sentence. Ignored words are
+   * never returned, known/mastered words only fill up the count, and words
+   * due for review are asked for whenever they appear.
    */
   async selectWordsFromBatch(
-    originalText: string,
-    translatedText: string,
-    config: TranslationConfig
+    sentences: TranslatedSentence[],
+    config: TranslationConfig,
+    hints?: WordSelectionHints
   ): Promise<WordPair[]> {
     if (!this.session) {
       throw new Error("Prompt API not initialized");
     }
 
+    const originalText = sentences.map((sentence) => sentence.text).join(" ");
+
     // Calculate target word count based on density
-    const words = originalText.match(/\b[\w']+\b/g) || [];
+    const words = segmentWords(originalText, config.sourceLanguage);
     const densityRatio = DENSITY_RATIOS[config.density];
     const targetWordCount = Math.max(
       1,
       Math.round(words.length / densityRatio)
     );
 
+    const languageName = getLanguageName(config.activeLanguage);
+    const sourceLanguageName = getLanguageName(config.sourceLanguage);
+    const { ruby, genders } = getLanguageInfo(config.activeLanguage);
+
     // Define JSON Schema for structured output
     const schema = {
       type: "object",
@@ -120,14 +209,71 @@ class PromptService {
             properties: {
               original: {
                 type: "string",
-                description: "The English word to translate",
+                description: `The ${sourceLanguageName} word or phrase to translate`,
               },
               translated: {
                 type: "string",
-                description: "The French translation",
+                description: `The ${languageName} translation as used in the sentence`,
               },
+              sentence: {
+                type: "integer",
+                description: "Number of the sentence the word appears in",
+              },
+              lemma: {
+                type: "string",
+                description: `Dictionary form of the ${sourceLanguageName} word`,
+              },
+              targetLemma: {
+                type: "string",
+                description: `Dictionary form of the ${languageName} translation`,
+              },
+              inflection: {
+                type: "string",
+                enum: [...INFLECTIONS, "none"],
+                description: `How the ${sourceLanguageName} word is inflected, which the translation agrees with`,
+              },
+              ...(ruby
+                ? {
+                    reading: {
+                      type: "string",
+                      description: `Reading (${ruby}) of the ${languageName} translation`,
+                    },
+                  }
+                : {}),
+              partOfSpeech: {
+                type: "string",
+                enum: PARTS_OF_SPEECH,
+                description: `Part of speech of the ${languageName} translation`,
+              },
+              ...(genders
+                ? {
+                    gender: {
+                      type: "string",
+                      enum: [...genders, "none"],
+                      description: `Gender of a ${languageName} noun, "none" for other words`,
+                    },
+                    article: {
+                      type: "string",
+                      description: `Definite article of a ${languageName} noun, "" for other words`,
+                    },
+                    plural: {
+                      type: "string",
+                      description: `Plural of a ${languageName} noun, "" for other words`,
+                    },
+                  }
+                : {}),
             },
-            required: ["original", "translated"],
+            required: [
+              "original",
+              "translated",
+              "sentence",
+              "lemma",
+              "targetLemma",
+              "inflection",
+              ...(ruby ? ["reading"] : []),
+              "partOfSpeech",
+              ...(genders ? ["gender", "article", "plural"] : []),
+            ],
           },
         },
       },
@@ -136,42 +282,68 @@ class PromptService {
 
     // Get difficulty-specific guidance
     const difficultyGuidance = this.getDifficultyGuidance(config.difficulty);
-
-    const prompt = `You are helping a ${config.difficulty} level ${config.activeLanguage} learner select words to practice.
-
-ORIGINAL ENGLISH TEXT:
-"${originalText}"
-
-FRENCH TRANSLATION:
-"${translatedText}"
-
-TASK: Select EXACTLY ${targetWordCount} words from the ORIGINAL English text that should be translated for learning.
+    const vocabularyGuidance = hints
+      ? this.getVocabularyGuidance(hints, originalText, config.sourceLanguage)
+      : "";
+
+    // Rules for the agreement, grammar and reading fields, some of which
+    // only exist for some target languages
+    const extraRules = [
+      `The translation must agree with the word: a plural noun, past-tense verb or comparative adjective gets the plural, past or comparative form used in the ${languageName} translation, never its dictionary form ("houses" → "maisons", not "maison"). Say how the word is inflected in "inflection" ("none" for a dictionary form)`,
+      'Give the part of speech of each translation in "partOfSpeech"',
+      genders &&
+        `For a ${languageName} noun, give the gender, definite article and plural of its dictionary form (for French "maison": "feminine", "la", "maisons")`,
+      ruby && READING_GUIDANCE[ruby],
+    ]
+      .filter(Boolean)
+      .map((rule, index) => `${12 + index}. ${rule}`)
+      .join("\n");
+
+    const numberedSentences = sentences
+      .map(
+        (sentence, index) =>
+          `${index + 1}. "${sentence.text}"\n   → "${sentence.translation}"`
+      )
+      .join("\n");
+
+    const prompt = `You are helping a ${config.difficulty} level ${languageName} learner select words to practice.
+
+${sourceLanguageName.toUpperCase()} SENTENCES, each followed by its ${languageName} translation:
+${numberedSentences}
+
+TASK: Select EXACTLY ${targetWordCount} words from the ${sourceLanguageName} sentences that should be translated for learning.
 
 SELECTION CRITERIA:
 ${difficultyGuidance}
+${vocabularyGuidance}
 
 RULES:
-1. Select ONLY words that appear in the original English text
+1. Select ONLY words that appear in the ${sourceLanguageName} sentences
 2. Do NOT select proper nouns (names, places, brands)
-3. Do NOT select very common words (the, a, an, is, are, was, were, be, been, have, has, had, do, does, did, will, would, shall, should, can, could, may, might, must, etc.)
+3. Do NOT select very common function words (articles, pronouns, conjunctions, auxiliary and modal verbs such as "is", "have", "will", "can" in English)
 4. Do NOT select punctuation or articles
-5. Match each English word with its corresponding ${config.activeLanguage} translation
-6. Return words in lowercase
-7. You MUST select exactly ${targetWordCount} words - this is critical for the learning experience
-8. Prefer nouns, verbs, adjectives, and adverbs - these are valuable for learning
+5. Give the number of the sentence each word appears in, and its ${languageName} translation exactly as it appears in THAT sentence's translation
+6. A word can mean different things in different sentences (a river "bank" and a "bank" for money). If you select a word that appears in several sentences, list it once per sentence with the translation used there
+7. Copy each word exactly as it is written in the sentence, with its inflection ("running", not "run"), and do the same for its translation. Give the dictionary form of each in "lemma" and "targetLemma" ("run" and "courir")
+8. Return words in lowercase
+9. You MUST select exactly ${targetWordCount} words - this is critical for the learning experience
+10. Prefer nouns, verbs, adjectives, and adverbs - these are valuable for learning
+11. A phrasal verb or idiom ("give up", "break the ice") counts as ONE word: select the whole phrase as written in the sentence, with the whole phrase's translation, when the sentence uses it as a phrase
+${extraRules}
 
 IMPORTANT:
 - Prioritize selecting the full ${targetWordCount} words
 - Include common everyday words that are useful for learners (like food items, actions, descriptive words)
-- We will replace ALL occurrences of each word in the text
+- We will replace ALL occurrences of each word in the sentence you give for it
 
 Return a JSON object with a "words" array containing exactly ${targetWordCount} word pairs.
 
 Example format:
 {
   "words": [
-    {"original": "cat", "translated": "chat"},
-    {"original": "house", "translated": "maison"}
+    {"original": "cats", "translated": "chats", "sentence": 1, "lemma": "cat", "targetLemma": "chat", "inflection": "plural", "partOfSpeech": "noun"},
+    {"original": "house", "translated": "maison", "sentence": 3, "lemma": "house", "targetLemma": "maison", "inflection": "none", "partOfSpeech": "noun"},
+    {"original": "gave up", "translated": "abandonné", "sentence": 4, "lemma": "give up", "targetLemma": "abandonner", "inflection": "past", "partOfSpeech": "verb"}
   ]
 }`;
 
@@ -187,8 +359,12 @@ Example format:
 
       console.log(`[PromptService] AI selected ${wordPairs.length}/${targetWordCount} word pairs`);
 
-      // Validate that words exist in original text
-      const validPairs = this.validateWordPairs(wordPairs, originalText);
+      // Validate each pair against the sentence it names
+      const validPairs = this.applySelectionHints(
+        this.validateWordPairs(wordPairs, sentences, config),
+        targetWordCount,
+        hints
+      );
 
       console.log(`[PromptService] After validation: ${validPairs.length} valid word pairs`);
 
@@ -206,24 +382,229 @@ Example format:
   }
 
   /**
-   * Validate that word pairs actually exist in the original text
+   * Validate that each word is in the sentence it names and its translation
+   * is in that sentence's translation, so a translation borrowed from
+   * another sense is dropped. A dictionary form given instead of the word
+   * as written is swapped for the inflected form found in the sentence,
+   * and the translation of an inflected word for the form agreeing with it.
+   * Sentence numbers become 0-based indexes and lemmas are checked against
+   * the lemmatizer's rules.
    */
   private validateWordPairs(
-    pairs: WordPair[],
-    originalText: string
+    pairs: ModelWordPair[],
+    sentences: TranslatedSentence[],
+    config: TranslationConfig
   ): WordPair[] {
-    const lowerOriginal = originalText.toLowerCase();
+    const seen = new Set<string>();
+
+    return pairs.flatMap((pair) => {
+      const index = pair.sentence - 1;
+      const sentence = sentences[index];
+      if (!sentence) {
+        console.warn(`Word "${pair.original}" has no sentence ${pair.sentence}, skipping`);
+        return [];
+      }
 
-    return pairs.filter((pair) => {
-      const wordRegex = new RegExp(`\\b${pair.original.toLowerCase()}\\b`);
-      const exists = wordRegex.test(lowerOriginal);
+      const original = this.findInflectedForm(
+        sentence.text,
+        pair.original,
+        config.sourceLanguage
+      );
+      if (!original) {
+        console.warn(`Word "${pair.original}" not found in sentence ${pair.sentence}, skipping`);
+        return [];
+      }
+      const found = this.findInflectedForm(
+        sentence.translation,
+        pair.translated,
+        config.activeLanguage
+      );
+      if (!found) {
+        console.warn(`Translation "${pair.translated}" not found in sentence ${pair.sentence}, skipping`);
+        return [];
+      }
 
-      if (!exists) {
-        console.warn(`Word "${pair.original}" not found in text, skipping`);
+      const key = `${index}|${original.toLowerCase()}`;
+      if (seen.has(key)) {
+        return [];
       }
+      seen.add(key);
+
+      const lemma = lemmatize(original, config.sourceLanguage, pair.lemma);
+      const targetLemma = lemmatize(
+        found,
+        config.activeLanguage,
+        pair.targetLemma
+      );
+      // A word in its dictionary form has no inflection to agree with
+      const inflection =
+        original.toLowerCase() !== lemma
+          ? INFLECTIONS.find((known) => known === pair.inflection)
+          : undefined;
+      const translated = inflection
+        ? this.findAgreeingForm(
+            sentence.translation,
+            found,
+            targetLemma,
+            config.activeLanguage
+          )
+        : found;
+
+      // A reading only fits the translation the model gave it, and kana
+      // spelled out again adds nothing
+      const reading = pair.reading?.trim();
+      const hasReading =
+        !!reading && translated === pair.translated && reading !== translated;
+
+      return [
+        {
+          original: original.toLowerCase(),
+          translated: translated.toLowerCase(),
+          sentence: index,
+          lemma,
+          targetLemma,
+          ...(hasReading ? { reading } : {}),
+          grammar: this.parseGrammar(pair, config.activeLanguage),
+          ...(inflection ? { inflection } : {}),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Grammar of a pair's translation; gender, article and plural are kept
+   * for nouns only, and only with a gender the language has
+   */
+  private parseGrammar(
+    pair: ModelWordPair,
+    language: SupportedLanguage
+  ): WordGrammar {
+    const partOfSpeech = PARTS_OF_SPEECH.includes(
+      pair.partOfSpeech as PartOfSpeech
+    )
+      ? (pair.partOfSpeech as PartOfSpeech)
+      : "other";
+    const genders = getLanguageInfo(language).genders;
+    if (partOfSpeech !== "noun" || !genders) {
+      return { partOfSpeech };
+    }
+
+    const gender = genders.find((known) => known === pair.gender);
+    const article = pair.article?.trim().toLowerCase();
+    const plural = pair.plural?.trim().toLowerCase();
+    return {
+      partOfSpeech,
+      ...(gender ? { gender } : {}),
+      // An article is a short word, not a sentence fragment
+      ...(article && article.length <= 5 ? { article } : {}),
+      ...(plural ? { plural } : {}),
+    };
+  }
+
+  /**
+   * The translation of an inflected word as it agrees with it: when the
+   * model gave the bare dictionary form, the first other form of it in the
+   * sentence's translation ("maison" → "maisons"). Kept as given when the
+   * translation has no other form, as for words that don't inflect.
+   */
+  private findAgreeingForm(
+    translation: string,
+    translated: string,
+    targetLemma: string,
+    language: SupportedLanguage
+  ): string {
+    if (translated.toLowerCase() !== targetLemma) {
+      return translated;
+    }
+    return (
+      findWordForms(translation, targetLemma, language).find(
+        (form) => form.toLowerCase() !== targetLemma
+      ) ?? translated
+    );
+  }
+
+  /**
+   * The word as written in a text, or its first inflected form there when
+   * the model answered with the dictionary form; null if neither is found
+   */
+  private findInflectedForm(
+    text: string,
+    word: string,
+    language: SupportedLanguage
+  ): string | null {
+    if (findWordMatches(text, word, language).length > 0) {
+      return word;
+    }
+    return findWordForms(text, word, language)[0] ?? null;
+  }
+
+  /**
+   * Drop ignored words and keep known/mastered words only while the batch
+   * is short of its target count
+   */
+  private applySelectionHints(
+    pairs: WordPair[],
+    targetWordCount: number,
+    hints?: WordSelectionHints
+  ): WordPair[] {
+    if (!hints) {
+      return pairs;
+    }
 
-      return exists;
+    const ignored = new Set(hints.ignored);
+    const known = new Set(hints.known);
+    // Hints hold dictionary forms: ignoring "run" also skips "running"
+    const allowed = pairs.filter((pair) => {
+      const isIgnored = ignored.has(getPairLemma(pair));
+      if (isIgnored) {
+        console.log(`[PromptService] Skipping ignored word "${pair.original}"`);
+      }
+      return !isIgnored;
     });
+
+    const learning = allowed.filter((pair) => !known.has(getPairLemma(pair)));
+    const fillers = allowed.filter((pair) => known.has(getPairLemma(pair)));
+    const spareSlots = Math.max(0, targetWordCount - learning.length);
+
+    return [...learning, ...fillers.slice(0, spareSlots)];
+  }
+
+  /**
+   * Prompt lines listing the learner's ignored, known and due words that
+   * appear in this batch, in any inflected form
+   */
+  private getVocabularyGuidance(
+    hints: WordSelectionHints,
+    originalText: string,
+    sourceLanguage: SupportedLanguage
+  ): string {
+    const inText = (words: string[]) =>
+      words.filter(
+        (word) =>
+          findWordMatches(originalText, word, sourceLanguage).length > 0 ||
+          findWordForms(originalText, word, sourceLanguage).length > 0
+      );
+
+    const ignored = inText(hints.ignored);
+    const known = inText(hints.known);
+    const due = inText(hints.due);
+    const lines: string[] = [];
+
+    if (due.length > 0) {
+      lines.push(
+        `- The learner is due to review these words, select them first: ${due.join(", ")}`
+      );
+    }
+    if (known.length > 0) {
+      lines.push(
+        `- The learner already knows these words, select them only if nothing else fits: ${known.join(", ")}`
+      );
+    }
+    if (ignored.length > 0) {
+      lines.push(`- NEVER select these words: ${ignored.join(", ")}`);
+    }
+
+    return lines.join("\n");
   }
 
   /**
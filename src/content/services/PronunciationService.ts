@@ -1,4 +1,7 @@
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  getLanguageName,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
 
 /**
  * Pronunciation Service - Validates pronunciation using Prompt API with audio input
@@ -121,8 +124,7 @@ class PronunciationService {
       await this.initialize();
     }
 
-    const languageCode = targetLanguage === "french" ? "fr" : "es";
-    const languageName = targetLanguage === "french" ? "French" : "Spanish";
+    const languageName = getLanguageName(targetLanguage);
 
     try {
       // Convert Blob to File for Prompt API
@@ -1,4 +1,12 @@
-import type { SupportedLanguage } from "../utils/translationConfig";
+import {
+  getLanguageName,
+  isolateText,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+import {
+  findWordMatches,
+  replaceWordMatches,
+} from "../utils/textExtraction";
 
 /**
  * Quiz Service - Generates quiz questions using Prompt API
@@ -44,21 +52,23 @@ class QuizService {
    * Generate 3 incorrect translation options for multiple choice quiz
    */
   async generateIncorrectOptions(
-    correctEnglish: string,
-    targetLanguage: SupportedLanguage
+    correctSource: string,
+    targetLanguage: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
   ): Promise<string[]> {
     if (!this.isInitialized || !this.session) {
       await this.initialize();
     }
 
-    const languageName = targetLanguage === "french" ? "French" : "Spanish";
+    const languageName = getLanguageName(targetLanguage);
+    const sourceLanguageName = getLanguageName(sourceLanguage);
 
-    const prompt = `Given the English word "${correctEnglish}", generate exactly 3 INCORRECT English words that could be confusing alternatives in a ${languageName} language learning quiz.
+    const prompt = `Given the ${sourceLanguageName} word "${correctSource}", generate exactly 3 INCORRECT ${sourceLanguageName} words that could be confusing alternatives in a ${languageName} language learning quiz.
 
 Requirements:
 - Words should be plausible but WRONG
 - Words should be similar in meaning, length, or category
-- Words should NOT include the correct answer "${correctEnglish}"
+- Words should NOT include the correct answer "${correctSource}"
 - Return ONLY a valid JSON array of 3 strings
 - Example format: ["word1", "word2", "word3"]
 
@@ -66,52 +76,93 @@ Generate the 3 incorrect options now:`;
 
     try {
       const response = await this.session.prompt(prompt);
-      console.log("[QuizService] Raw response:", response);
-
-      // Clean markdown code blocks if present
-      let cleaned = response.trim();
-
-      // Remove ```json and ``` markers
-      if (cleaned.startsWith("```json")) {
-        cleaned = cleaned.replace(/^```json\s*/, "").replace(/```\s*$/, "");
-      } else if (cleaned.startsWith("```")) {
-        cleaned = cleaned.replace(/^```\s*/, "").replace(/```\s*$/, "");
-      }
+      return this.parseOptions(response, correctSource);
+    } catch (error) {
+      console.error("[QuizService] Failed to generate options:", error);
+      // Fallback options
+      return ["option1", "option2", "option3"];
+    }
+  }
 
-      cleaned = cleaned.trim();
+  /**
+   * Generate 3 incorrect target-language words for a cloze question
+   */
+  async generateIncorrectTargetOptions(
+    correctTarget: string,
+    targetLanguage: SupportedLanguage
+  ): Promise<string[]> {
+    if (!this.isInitialized || !this.session) {
+      await this.initialize();
+    }
 
-      // Parse JSON response
-      const options = JSON.parse(cleaned);
+    const languageName = getLanguageName(targetLanguage);
 
-      if (!Array.isArray(options) || options.length !== 3) {
-        throw new Error("Invalid response format");
-      }
+    const prompt = `Given the ${languageName} word "${correctTarget}", generate exactly 3 INCORRECT ${languageName} words for a fill-in-the-blank language learning quiz.
 
-      // Filter out any options that match the correct answer
-      const filtered = options.filter(
-        (opt: string) => opt.toLowerCase() !== correctEnglish.toLowerCase()
-      );
+Requirements:
+- Words should be real ${languageName} words of the same part of speech
+- Words should be plausible but WRONG in place of "${correctTarget}"
+- Words should NOT include the correct answer "${correctTarget}"
+- Return ONLY a valid JSON array of 3 strings
+- Example format: ["word1", "word2", "word3"]
 
-      // If we lost options due to filtering, generate simple fallbacks
-      while (filtered.length < 3) {
-        filtered.push(`option${filtered.length + 1}`);
-      }
+Generate the 3 incorrect options now:`;
 
-      return filtered.slice(0, 3);
+    try {
+      const response = await this.session.prompt(prompt);
+      return this.parseOptions(response, correctTarget);
     } catch (error) {
-      console.error("[QuizService] Failed to generate options:", error);
-      // Fallback options
+      console.error("[QuizService] Failed to generate target options:", error);
       return ["option1", "option2", "option3"];
     }
   }
 
+  /**
+   * Parse a JSON array of 3 options from a model response
+   */
+  private parseOptions(response: string, correctAnswer: string): string[] {
+    console.log("[QuizService] Raw response:", response);
+
+    // Clean markdown code blocks if present
+    let cleaned = response.trim();
+
+    // Remove ```json and ``` markers
+    if (cleaned.startsWith("```json")) {
+      cleaned = cleaned.replace(/^```json\s*/, "").replace(/```\s*$/, "");
+    } else if (cleaned.startsWith("```")) {
+      cleaned = cleaned.replace(/^```\s*/, "").replace(/```\s*$/, "");
+    }
+
+    cleaned = cleaned.trim();
+
+    // Parse JSON response
+    const options = JSON.parse(cleaned);
+
+    if (!Array.isArray(options) || options.length !== 3) {
+      throw new Error("Invalid response format");
+    }
+
+    // Filter out any options that match the correct answer
+    const filtered = options.filter(
+      (opt: string) => opt.toLowerCase() !== correctAnswer.toLowerCase()
+    );
+
+    // If we lost options due to filtering, generate simple fallbacks
+    while (filtered.length < 3) {
+      filtered.push(`option${filtered.length + 1}`);
+    }
+
+    return filtered.slice(0, 3);
+  }
+
   /**
    * Generate a complete multiple choice question
    */
   async generateMultipleChoiceQuestion(
-    englishWord: string,
-    translatedWord: string,
-    targetLanguage: SupportedLanguage
+    sourceWord: string,
+    targetWord: string,
+    targetLanguage: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
   ): Promise<{
     question: string;
     options: string[];
@@ -120,25 +171,71 @@ Generate the 3 incorrect options now:`;
   }> {
     // Generate 3 incorrect options
     const incorrectOptions = await this.generateIncorrectOptions(
-      englishWord,
-      targetLanguage
+      sourceWord,
+      targetLanguage,
+      sourceLanguage
     );
 
     // Combine with correct answer and shuffle
-    const allOptions = [...incorrectOptions, englishWord];
+    const allOptions = [...incorrectOptions, sourceWord];
     const shuffled = this.shuffleArray(allOptions);
-    const correctIndex = shuffled.indexOf(englishWord);
-
-    const languageName = targetLanguage === "french" ? "French" : "Spanish";
+    const correctIndex = shuffled.indexOf(sourceWord);
 
     return {
-      question: `What does "${translatedWord}" mean in English?`,
+      question: `What does "${isolateText(
+        targetWord
+      )}" mean in ${getLanguageName(sourceLanguage)}?`,
       options: shuffled,
-      correctAnswer: englishWord,
+      correctAnswer: sourceWord,
       correctIndex,
     };
   }
 
+  /**
+   * Generate a cloze question from a sentence the learner read on a page:
+   * the source word is blanked out and the learner picks the target word
+   * that fills it. Returns null if the word isn't in the sentence.
+   */
+  async generateClozeQuestion(
+    sentence: string,
+    sourceWord: string,
+    targetWord: string,
+    targetLanguage: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<{
+    question: string;
+    sentence: string;
+    options: string[];
+    correctAnswer: string;
+    correctIndex: number;
+  } | null> {
+    if (findWordMatches(sentence, sourceWord, sourceLanguage).length === 0) {
+      return null;
+    }
+
+    const incorrectOptions = await this.generateIncorrectTargetOptions(
+      targetWord,
+      targetLanguage
+    );
+
+    const shuffled = this.shuffleArray([...incorrectOptions, targetWord]);
+
+    return {
+      question: `Which ${getLanguageName(
+        targetLanguage
+      )} word fills the blank?`,
+      sentence: replaceWordMatches(
+        sentence,
+        sourceWord,
+        sourceLanguage,
+        () => "_____"
+      ),
+      options: shuffled,
+      correctAnswer: targetWord,
+      correctIndex: shuffled.indexOf(targetWord),
+    };
+  }
+
   /**
    * Shuffle an array using Fisher-Yates algorithm
    */
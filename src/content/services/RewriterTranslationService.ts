@@ -1,5 +1,5 @@
 import type { SupportedLanguage } from "../utils/translationConfig";
-import { getLanguageCode } from "../utils/translationConfig";
+import { getLanguageCode, getLanguageName } from "../utils/translationConfig";
 
 /**
  * Rewriter Translation Service - Uses Rewriter API for user-initiated translation
@@ -45,7 +45,7 @@ class RewriterTranslationService {
 
       // Get language code for output
       const languageCode = getLanguageCode(language);
-      const languageName = language === "french" ? "French" : "Spanish";
+      const languageName = getLanguageName(language);
 
       console.log(
         `[RewriterTranslationService] Initializing for ${languageName} (${languageCode})`
@@ -57,7 +57,7 @@ class RewriterTranslationService {
         tone: "as-is",
         format: "plain-text",
         length: "as-is",
-        sharedContext: `Translate English text naturally to ${languageName}. Maintain the original meaning and context.`,
+        sharedContext: `Translate text naturally to ${languageName}. Maintain the original meaning and context.`,
         monitor(m: any) {
           m.addEventListener("downloadprogress", (e: any) => {
             const progress = (e.loaded / e.total) * 100;
@@ -108,7 +108,9 @@ class RewriterTranslationService {
     try {
       // Use rewrite() for request-based (non-streaming) translation
       const translation = await this.rewriter.rewrite(text, {
-        context: `Translate this English text to ${language} naturally, maintaining the original meaning.`,
+        context: `Translate this text to ${getLanguageName(
+          language
+        )} naturally, maintaining the original meaning.`,
       });
 
       console.log(
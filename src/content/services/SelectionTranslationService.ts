@@ -1,5 +1,5 @@
 import type { SupportedLanguage } from "../utils/translationConfig";
-import { getLanguageCode } from "../utils/translationConfig";
+import { getLanguageCode, getLanguageName } from "../utils/translationConfig";
 
 /**
  * Selection Translation Service - Handles user-initiated text translation
@@ -11,20 +11,25 @@ class SelectionTranslationService {
   private isTranslatorInitialized = false;
   private isRewriterInitialized = false;
   private currentLanguage: SupportedLanguage | null = null;
+  private currentSourceLanguage: SupportedLanguage | null = null;
 
   /**
    * Initialize the Translation API
    */
-  async initializeTranslator(language: SupportedLanguage): Promise<void> {
-    // If already initialized for this language, reuse
+  async initializeTranslator(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<void> {
+    // If already initialized for this language pair, reuse
     if (
       this.isTranslatorInitialized &&
       this.currentLanguage === language &&
+      this.currentSourceLanguage === sourceLanguage &&
       this.translator
     ) {
       console.log(
         "[SelectionTranslationService] Translator already initialized for",
-        language
+        `${sourceLanguage} → ${language}`
       );
       return;
     }
@@ -47,8 +52,9 @@ class SelectionTranslationService {
       }
 
       const languageCode = getLanguageCode(language);
+      const sourceLanguageCode = getLanguageCode(sourceLanguage);
       const availability = await (self as any).Translator.availability({
-        sourceLanguage: "en",
+        sourceLanguage: sourceLanguageCode,
         targetLanguage: languageCode,
       });
       console.log(
@@ -60,7 +66,7 @@ class SelectionTranslationService {
         throw new Error("Translator API is not available");
       }
 
-      const languageName = language === "french" ? "French" : "Spanish";
+      const languageName = getLanguageName(language);
 
       console.log(
         `[SelectionTranslationService] Initializing translator for ${languageName} (${languageCode})`
@@ -68,12 +74,13 @@ class SelectionTranslationService {
 
       // Create translator
       this.translator = await (self as any).Translator.create({
-        sourceLanguage: "en",
+        sourceLanguage: sourceLanguageCode,
         targetLanguage: languageCode,
       });
 
       this.isTranslatorInitialized = true;
       this.currentLanguage = language;
+      this.currentSourceLanguage = sourceLanguage;
 
       console.log(
         `[SelectionTranslationService] Translator initialized successfully for ${languageName}`
@@ -122,7 +129,7 @@ class SelectionTranslationService {
         format: "plain-text",
         length: "shorter",
         sharedContext:
-          "Simplify English text to make it easier to understand. Use simple words and shorter sentences.",
+          "Simplify text to make it easier to understand. Use simple words and shorter sentences. Keep the text in its original language.",
       });
 
       this.isRewriterInitialized = true;
@@ -140,9 +147,12 @@ class SelectionTranslationService {
   }
 
   /**
-   * Simplify English text using Rewriter API
+   * Simplify source-language text using Rewriter API
    */
-  async simplifyText(text: string): Promise<string> {
+  async simplifyText(
+    text: string,
+    sourceLanguage: SupportedLanguage
+  ): Promise<string> {
     console.log(
       `[SelectionTranslationService] Simplifying: "${text.substring(0, 50)}..."`
     );
@@ -158,7 +168,9 @@ class SelectionTranslationService {
 
     try {
       const simplified = await this.rewriter.rewrite(text, {
-        context: "Simplify this English text to make it easier to understand.",
+        context: `Simplify this ${getLanguageName(
+          sourceLanguage
+        )} text to make it easier to understand.`,
       });
 
       console.log(
@@ -184,15 +196,20 @@ class SelectionTranslationService {
    */
   async translateText(
     text: string,
-    language: SupportedLanguage
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
   ): Promise<string> {
     console.log(
       `[SelectionTranslationService] Translating: "${text.substring(0, 50)}..."`
     );
 
     // Initialize translator if needed
-    if (!this.isTranslatorInitialized || this.currentLanguage !== language) {
-      await this.initializeTranslator(language);
+    if (
+      !this.isTranslatorInitialized ||
+      this.currentLanguage !== language ||
+      this.currentSourceLanguage !== sourceLanguage
+    ) {
+      await this.initializeTranslator(language, sourceLanguage);
     }
 
     if (!this.translator) {
@@ -222,6 +239,7 @@ class SelectionTranslationService {
   async translateSelectedText(
     text: string,
     language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage,
     simplify: boolean = false
   ): Promise<string> {
     console.log(
@@ -233,7 +251,7 @@ class SelectionTranslationService {
     // Step 1: Simplify if requested
     if (simplify) {
       try {
-        textToTranslate = await this.simplifyText(text);
+        textToTranslate = await this.simplifyText(text, sourceLanguage);
       } catch (error) {
         console.warn(
           "[SelectionTranslationService] Simplification failed, using original text"
@@ -243,7 +261,11 @@ class SelectionTranslationService {
     }
 
     // Step 2: Translate
-    const translation = await this.translateText(textToTranslate, language);
+    const translation = await this.translateText(
+      textToTranslate,
+      language,
+      sourceLanguage
+    );
 
     return translation;
   }
@@ -291,6 +313,7 @@ class SelectionTranslationService {
     }
 
     this.currentLanguage = null;
+    this.currentSourceLanguage = null;
     console.log("[SelectionTranslationService] Destroyed");
   }
 }
@@ -2,38 +2,49 @@ import type {
   SupportedLanguage,
   LanguageStats,
   WordData,
-  LanguageData,
   DifficultyLevel,
   DensityLevel,
   TranslationConfig,
+  ReviewGrade,
+  SitePolicy,
+  WordState,
 } from "../utils/translationConfig";
+import {
+  DEFAULT_CONFIG,
+  LEGACY_LANGUAGE_KEYS,
+  isSupportedLanguage,
+  normalizeConfig,
+  getLanguagePairKey,
+} from "../utils/translationConfig";
+import {
+  vocabularyRepository,
+  type EncounterContext,
+  type EncounterRecord,
+  type GlossaryEntry,
+  type QuizResultRecord,
+  type WordSelectionHints,
+} from "./VocabularyRepository";
+import { lemmatize } from "../utils/lemmatizer";
 
 /**
  * Service for managing language-specific storage
  */
 class StorageService {
+  private migration: Promise<void> | null = null;
+
   /**
    * Get full config
    */
   async getConfig(): Promise<TranslationConfig> {
     try {
       const result = await chrome.storage.local.get("config");
-      return (
-        result.config || {
-          activeLanguage: "french",
-          difficulty: "beginner",
-          density: "high",
-          translationEnabled: true,
-        }
-      );
+      if (!result.config) {
+        return DEFAULT_CONFIG;
+      }
+      return normalizeConfig(result.config);
     } catch (error) {
       console.error("Error getting config:", error);
-      return {
-        activeLanguage: "french",
-        difficulty: "beginner",
-        density: "high",
-        translationEnabled: true,
-      };
+      return DEFAULT_CONFIG;
     }
   }
 
@@ -57,10 +68,10 @@ class StorageService {
   async getActiveLanguage(): Promise<SupportedLanguage> {
     try {
       const config = await this.getConfig();
-      return config.activeLanguage || "french";
+      return config.activeLanguage;
     } catch (error) {
       console.error("Error getting active language:", error);
-      return "french";
+      return DEFAULT_CONFIG.activeLanguage;
     }
   }
 
@@ -71,6 +82,26 @@ class StorageService {
     await this.updateConfig({ activeLanguage: language });
   }
 
+  /**
+   * Get source (native) language from config
+   */
+  async getSourceLanguage(): Promise<SupportedLanguage> {
+    try {
+      const config = await this.getConfig();
+      return config.sourceLanguage;
+    } catch (error) {
+      console.error("Error getting source language:", error);
+      return DEFAULT_CONFIG.sourceLanguage;
+    }
+  }
+
+  /**
+   * Set source (native) language in config
+   */
+  async setSourceLanguage(sourceLanguage: SupportedLanguage): Promise<void> {
+    await this.updateConfig({ sourceLanguage });
+  }
+
   /**
    * Get difficulty level
    */
@@ -136,18 +167,8 @@ class StorageService {
    */
   async getStats(language: SupportedLanguage): Promise<LanguageStats> {
     try {
-      const result = await chrome.storage.local.get("languages");
-      const languages = result.languages || {};
-
-      if (!languages[language] || !languages[language].stats) {
-        return {
-          totalWordsEncountered: 0,
-          totalPagesTranslated: 0,
-          lastActiveDate: new Date().toISOString(),
-        };
-      }
-
-      return languages[language].stats;
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.getStats(language);
     } catch (error) {
       console.error("Error getting stats:", error);
       return {
@@ -166,29 +187,9 @@ class StorageService {
     updates: Partial<LanguageStats>
   ): Promise<void> {
     try {
-      const result = await chrome.storage.local.get("languages");
-      const languages = result.languages || {};
-
-      if (!languages[language]) {
-        languages[language] = {
-          stats: {
-            totalWordsEncountered: 0,
-            totalPagesTranslated: 0,
-            lastActiveDate: new Date().toISOString(),
-          },
-          words: {},
-        };
-      }
-
-      // Update stats
-      languages[language].stats = {
-        ...languages[language].stats,
-        ...updates,
-        lastActiveDate: new Date().toISOString(),
-      };
-
-      await chrome.storage.local.set({ languages });
-      console.log(`Stats updated for ${language}:`, languages[language].stats);
+      await this.ensureVocabularyMigrated();
+      const stats = await vocabularyRepository.updateStats(language, updates);
+      console.log(`Stats updated for ${language}:`, stats);
     } catch (error) {
       console.error("Error updating stats:", error);
     }
@@ -202,14 +203,8 @@ class StorageService {
     field: keyof LanguageStats
   ): Promise<void> {
     try {
-      const stats = await this.getStats(language);
-      const currentValue = stats[field];
-
-      if (typeof currentValue === "number") {
-        await this.updateStats(language, {
-          [field]: currentValue + 1,
-        });
-      }
+      await this.ensureVocabularyMigrated();
+      await vocabularyRepository.incrementStat(language, field);
     } catch (error) {
       console.error("Error incrementing stat:", error);
     }
@@ -222,14 +217,8 @@ class StorageService {
     language: SupportedLanguage
   ): Promise<Record<string, WordData>> {
     try {
-      const result = await chrome.storage.local.get("languages");
-      const languages = result.languages || {};
-
-      if (!languages[language] || !languages[language].words) {
-        return {};
-      }
-
-      return languages[language].words;
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.getWords(language);
     } catch (error) {
       console.error("Error getting words:", error);
       return {};
@@ -244,8 +233,8 @@ class StorageService {
     wordId: string
   ): Promise<WordData | null> {
     try {
-      const words = await this.getWords(language);
-      return words[wordId] || null;
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.getWord(language, wordId);
     } catch (error) {
       console.error("Error getting word:", error);
       return null;
@@ -261,79 +250,469 @@ class StorageService {
     wordData: WordData
   ): Promise<void> {
     try {
-      const result = await chrome.storage.local.get("languages");
-      const languages = result.languages || {};
+      await this.ensureVocabularyMigrated();
+      const now = new Date().toISOString();
+      await vocabularyRepository.putWord(language, wordId, {
+        ...wordData,
+        lastSeenDate: now,
+        updatedAt: now,
+      });
+    } catch (error) {
+      console.error("Error saving word:", error);
+    }
+  }
 
-      if (!languages[language]) {
-        languages[language] = {
-          stats: {
-            totalWordsEncountered: 0,
-            totalPagesTranslated: 0,
-            lastActiveDate: new Date().toISOString(),
-          },
-          words: {},
-        };
-      }
+  /**
+   * Edit a stored word (e.g. fix a bad translation or change its state)
+   */
+  async updateWord(
+    language: SupportedLanguage,
+    wordId: string,
+    updates: Partial<WordData>
+  ): Promise<WordData | null> {
+    try {
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.patchWord(language, wordId, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Error updating word:", error);
+      return null;
+    }
+  }
 
-      // Update word
-      languages[language].words[wordId] = {
-        ...wordData,
-        lastSeenDate: new Date().toISOString(),
-      };
+  /**
+   * Get the learner's corrected translations, keyed by the word ID of the
+   * corrected sense
+   */
+  async getGlossary(
+    language: SupportedLanguage
+  ): Promise<Record<string, GlossaryEntry>> {
+    try {
+      const entries = await vocabularyRepository.getGlossary(language);
+      return Object.fromEntries(entries.map((entry) => [entry.source, entry]));
+    } catch (error) {
+      console.error("Error getting glossary:", error);
+      return {};
+    }
+  }
 
-      await chrome.storage.local.set({ languages });
+  /**
+   * Correct a word's translation: saved to the glossary so it replaces the
+   * model's translation of that sense on every page and in quizzes.
+   * `wordId` is the sense being corrected (defaults to the word's first
+   * sense).
+   */
+  async correctTranslation(
+    language: SupportedLanguage,
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage,
+    wordId?: string
+  ): Promise<WordData | null> {
+    try {
+      await this.ensureVocabularyMigrated();
+      const updated = await vocabularyRepository.setGlossaryEntry(
+        language,
+        source,
+        target,
+        sourceLanguage,
+        wordId
+      );
+      console.log(`Glossary: "${source}" → "${target}"`);
+      return updated;
     } catch (error) {
-      console.error("Error saving word:", error);
+      console.error("Error correcting translation:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop the glossary correction of a sense (the word keeps its current
+   * translation)
+   */
+  async removeCorrection(
+    language: SupportedLanguage,
+    wordId: string
+  ): Promise<void> {
+    try {
+      await vocabularyRepository.removeGlossaryEntry(language, wordId);
+      console.log(`Glossary entry removed: ${wordId}`);
+    } catch (error) {
+      console.error("Error removing glossary entry:", error);
+    }
+  }
+
+  /**
+   * Mark a word known, mastered or ignored (null clears the state)
+   */
+  async setWordState(
+    language: SupportedLanguage,
+    wordId: string,
+    state: WordState | null
+  ): Promise<WordData | null> {
+    try {
+      await this.ensureVocabularyMigrated();
+      const updated = await vocabularyRepository.setWordState(
+        language,
+        wordId,
+        state
+      );
+      console.log(`Word state for "${wordId}": ${state ?? "learning"}`);
+      return updated;
+    } catch (error) {
+      console.error("Error setting word state:", error);
+      return null;
     }
   }
 
   /**
-   * Record a word encounter (increment or create)
-   * This is called every time a word is translated on the page
+   * Remove a word and its history
+   */
+  async deleteWord(language: SupportedLanguage, wordId: string): Promise<void> {
+    try {
+      await this.ensureVocabularyMigrated();
+      await vocabularyRepository.deleteWord(language, wordId);
+      console.log(`Word deleted: ${wordId}`);
+    } catch (error) {
+      console.error("Error deleting word:", error);
+    }
+  }
+
+  /**
+   * Record a word encounter (increment or create) and where it happened
+   * This is called every time a word is translated on the page.
+   * `source` and `target` are the forms shown on the page; the encounter is
+   * counted under their lemmas (from `lemmas`, the model's suggestion, and
+   * the lemmatizer's rules) and the forms are kept with it.
+   * Returns the word ID of the sense it was recorded under.
    */
   async recordWordEncounter(
     language: SupportedLanguage,
-    english: string,
-    translated: string
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage,
+    context: EncounterContext = {},
+    lemmas: { lemma?: string; targetLemma?: string } = {}
+  ): Promise<string | null> {
+    try {
+      await this.ensureVocabularyMigrated();
+      const lemma = lemmatize(source, sourceLanguage, lemmas.lemma);
+      const targetLemma = lemmatize(target, language, lemmas.targetLemma);
+      return await vocabularyRepository.recordEncounter(
+        language,
+        lemma,
+        targetLemma,
+        sourceLanguage,
+        {
+          ...context,
+          form: source.toLowerCase(),
+          targetForm: target.toLowerCase(),
+        }
+      );
+    } catch (error) {
+      console.error("Error recording word encounter:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a word to the vocabulary without counting an encounter (e.g. a
+   * synonym from the hover card). `source` and `target` are dictionary
+   * forms. Returns the word ID it was saved under.
+   */
+  async addWord(
+    language: SupportedLanguage,
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage
+  ): Promise<string | null> {
+    try {
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.addWord(
+        language,
+        source.toLowerCase(),
+        target.toLowerCase(),
+        sourceLanguage
+      );
+    } catch (error) {
+      console.error("Error adding word:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get where a word was seen, most recent first
+   */
+  async getWordEncounters(
+    language: SupportedLanguage,
+    wordId: string
+  ): Promise<EncounterRecord[]> {
+    try {
+      await this.ensureVocabularyMigrated();
+      const encounters = await vocabularyRepository.getEncounters(
+        language,
+        wordId
+      );
+      return encounters.reverse();
+    } catch (error) {
+      console.error("Error getting word encounters:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a quiz answer for a word and reschedule its next review
+   */
+  async recordReview(
+    language: SupportedLanguage,
+    wordId: string,
+    grade: ReviewGrade
   ): Promise<void> {
     try {
-      const wordId = english.toLowerCase();
-      const existingWord = await this.getWord(language, wordId);
-
-      if (existingWord) {
-        // Word exists, increment counter
-        await this.saveWord(language, wordId, {
-          ...existingWord,
-          timesEncountered: existingWord.timesEncountered + 1,
-          lastSeenDate: new Date().toISOString(),
-        });
-      } else {
-        // New word
-        await this.saveWord(language, wordId, {
-          english,
-          translated,
-          timesEncountered: 1,
-          firstSeenDate: new Date().toISOString(),
-          lastSeenDate: new Date().toISOString(),
-        });
-
-        // Increment total words encountered (only for new words)
-        await this.incrementStat(language, "totalWordsEncountered");
+      await this.ensureVocabularyMigrated();
+      const scheduled = await vocabularyRepository.recordReview(
+        language,
+        wordId,
+        grade
+      );
+      if (!scheduled) {
+        console.warn(`Cannot record review for unknown word: ${wordId}`);
+        return;
       }
+
+      console.log(
+        `Review recorded for "${wordId}" (${grade}), next due ${scheduled.dueDate}`
+      );
     } catch (error) {
-      console.error("Error recording word encounter:", error);
+      console.error("Error recording review:", error);
+    }
+  }
+
+  /**
+   * Get the quiz answers for a word, most recent first
+   */
+  async getWordQuizResults(
+    language: SupportedLanguage,
+    wordId: string
+  ): Promise<QuizResultRecord[]> {
+    try {
+      await this.ensureVocabularyMigrated();
+      const results = await vocabularyRepository.getQuizResults(
+        language,
+        wordId
+      );
+      return results.reverse();
+    } catch (error) {
+      console.error("Error getting quiz results:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get words that are due for review, most urgent first
+   */
+  async getDueWords(
+    language: SupportedLanguage,
+    limit?: number
+  ): Promise<[string, WordData][]> {
+    try {
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.getDueWords(language, limit);
+    } catch (error) {
+      console.error("Error getting due words:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the ignored, known and due words that steer word selection
+   */
+  async getWordSelectionHints(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<WordSelectionHints> {
+    try {
+      await this.ensureVocabularyMigrated();
+      return await vocabularyRepository.getSelectionHints(
+        language,
+        sourceLanguage
+      );
+    } catch (error) {
+      console.error("Error getting word selection hints:", error);
+      return { ignored: [], known: [], due: [] };
+    }
+  }
+
+  /**
+   * Run the storage migrations once per context before the first vocabulary
+   * access, in case the update handler hasn't finished yet
+   */
+  private ensureVocabularyMigrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateStorage();
+    }
+    return this.migration;
+  }
+
+  /**
+   * Migrate data written by earlier versions of the extension
+   */
+  async migrateStorage(): Promise<void> {
+    await this.migrateLegacyLanguageKeys();
+    await this.migrateWordFields();
+    await this.migrateVocabularyToDatabase();
+  }
+
+  /**
+   * Migrate data stored under legacy language keys ("french", "spanish")
+   * to the BCP 47 codes used by the language registry, and translator
+   * downloads to source-target pair keys ("en-fr")
+   */
+  private async migrateLegacyLanguageKeys(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([
+        "config",
+        "languages",
+        "system",
+      ]);
+      const updates: Record<string, any> = {};
+
+      const activeLanguage = result.config?.activeLanguage;
+      if (
+        typeof activeLanguage === "string" &&
+        Object.hasOwn(LEGACY_LANGUAGE_KEYS, activeLanguage)
+      ) {
+        updates.config = {
+          ...result.config,
+          activeLanguage: LEGACY_LANGUAGE_KEYS[activeLanguage],
+        };
+      }
+
+      const languages = result.languages || {};
+      let languagesChanged = false;
+
+      for (const [legacyKey, code] of Object.entries(LEGACY_LANGUAGE_KEYS)) {
+        if (languages[legacyKey]) {
+          // Never overwrite data already stored under the new key
+          languages[code] = languages[code] || languages[legacyKey];
+          delete languages[legacyKey];
+          languagesChanged = true;
+        }
+      }
+
+      // Before source languages were configurable every download was English → X
+      const modelsDownloaded = result.system?.modelsDownloaded || {};
+      const pairDownloads: Record<string, boolean> = {};
+      let modelsChanged = false;
+
+      for (const [key, downloaded] of Object.entries(modelsDownloaded)) {
+        const code = Object.hasOwn(LEGACY_LANGUAGE_KEYS, key)
+          ? LEGACY_LANGUAGE_KEYS[key]
+          : key;
+        if (isSupportedLanguage(code)) {
+          const pairKey = getLanguagePairKey("en", code);
+          pairDownloads[pairKey] =
+            pairDownloads[pairKey] || Boolean(downloaded);
+          modelsChanged = true;
+        } else {
+          pairDownloads[key] = pairDownloads[key] || Boolean(downloaded);
+        }
+      }
+
+      if (languagesChanged) {
+        updates.languages = languages;
+      }
+      if (modelsChanged) {
+        updates.system = { ...result.system, modelsDownloaded: pairDownloads };
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await chrome.storage.local.set(updates);
+        console.log("Migrated legacy language keys:", Object.keys(updates));
+      }
+    } catch (error) {
+      console.error("Error migrating legacy language keys:", error);
+    }
+  }
+
+  /**
+   * Rename the English-only word fields (english/translated) to source/target
+   */
+  private async migrateWordFields(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get("languages");
+      const languages = result.languages || {};
+      let changed = false;
+
+      for (const languageData of Object.values<any>(languages)) {
+        for (const [wordId, word] of Object.entries<any>(
+          languageData.words || {}
+        )) {
+          if (word.source === undefined && word.english !== undefined) {
+            const { english, translated, ...rest } = word;
+            languageData.words[wordId] = {
+              ...rest,
+              source: english,
+              target: translated,
+              sourceLanguage: "en",
+            };
+            changed = true;
+          }
+        }
+      }
+
+      if (changed) {
+        await chrome.storage.local.set({ languages });
+        console.log("Migrated word fields to source/target");
+      }
+    } catch (error) {
+      console.error("Error migrating word fields:", error);
+    }
+  }
+
+  /**
+   * Move words and stats from chrome.storage.local into IndexedDB, then drop
+   * the old copy. Keeps the old copy unless this import succeeded (a context
+   * that imported it first drops it itself).
+   */
+  private async migrateVocabularyToDatabase(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get("languages");
+      if (!result.languages) {
+        return;
+      }
+
+      const imported = await vocabularyRepository.importLanguages(
+        result.languages
+      );
+      if (!imported) {
+        console.warn("Vocabulary already imported; keeping the old copy");
+        return;
+      }
+
+      await chrome.storage.local.remove("languages");
+      console.log("Migrated vocabulary to IndexedDB");
+    } catch (error) {
+      console.error("Error migrating vocabulary to IndexedDB:", error);
     }
   }
 
   /**
-   * Check if models are downloaded for a language
+   * Check if the translator model is downloaded for a language pair
    */
-  async isLanguageDownloaded(language: SupportedLanguage): Promise<boolean> {
+  async isLanguageDownloaded(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<boolean> {
     try {
       const result = await chrome.storage.local.get("system");
       const system = result.system || {};
       const modelsDownloaded = system.modelsDownloaded || {};
-      return modelsDownloaded[language] || false;
+      return (
+        modelsDownloaded[getLanguagePairKey(sourceLanguage, language)] || false
+      );
     } catch (error) {
       console.error("Error checking language download:", error);
       return false;
@@ -341,42 +720,100 @@ class StorageService {
   }
 
   /**
-   * Mark a language as downloaded
+   * Mark the translator model for a language pair as downloaded
    */
-  async setLanguageDownloaded(language: SupportedLanguage): Promise<void> {
+  async setLanguageDownloaded(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<void> {
     try {
       const result = await chrome.storage.local.get("system");
       const system = result.system || {};
       const modelsDownloaded = system.modelsDownloaded || {};
 
-      modelsDownloaded[language] = true;
+      modelsDownloaded[getLanguagePairKey(sourceLanguage, language)] = true;
       system.modelsDownloaded = modelsDownloaded;
 
       await chrome.storage.local.set({ system });
-      console.log(`Language marked as downloaded: ${language}`);
+      console.log(
+        `Language marked as downloaded: ${sourceLanguage} → ${language}`
+      );
     } catch (error) {
       console.error("Error setting language downloaded:", error);
     }
   }
 
   /**
-   * Get all downloaded languages
+   * Get all target languages downloaded for a source language
    */
-  async getDownloadedLanguages(): Promise<SupportedLanguage[]> {
+  async getDownloadedLanguages(
+    sourceLanguage: SupportedLanguage
+  ): Promise<SupportedLanguage[]> {
     try {
       const result = await chrome.storage.local.get("system");
       const system = result.system || {};
       const modelsDownloaded = system.modelsDownloaded || {};
+      const prefix = `${sourceLanguage}-`;
 
-      return Object.keys(modelsDownloaded).filter(
-        (lang) => modelsDownloaded[lang]
-      ) as SupportedLanguage[];
+      return Object.keys(modelsDownloaded)
+        .filter((key) => modelsDownloaded[key] && key.startsWith(prefix))
+        .map((key) => key.slice(prefix.length))
+        .filter(isSupportedLanguage);
     } catch (error) {
       console.error("Error getting downloaded languages:", error);
       return [];
     }
   }
 
+  /**
+   * Get all per-site policies, keyed by origin
+   */
+  async getSitePolicies(): Promise<Record<string, SitePolicy>> {
+    try {
+      const result = await chrome.storage.local.get("sitePolicies");
+      return result.sitePolicies || {};
+    } catch (error) {
+      console.error("Error getting site policies:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Get the policy for a site, or null if it follows the global settings
+   */
+  async getSitePolicy(origin: string): Promise<SitePolicy | null> {
+    const policies = await this.getSitePolicies();
+    return policies[origin] || null;
+  }
+
+  /**
+   * Save the policy for a site
+   */
+  async setSitePolicy(origin: string, policy: SitePolicy): Promise<void> {
+    try {
+      const policies = await this.getSitePolicies();
+      policies[origin] = policy;
+      await chrome.storage.local.set({ sitePolicies: policies });
+      console.log(`Site policy saved for ${origin}:`, policy);
+    } catch (error) {
+      console.error("Error saving site policy:", error);
+    }
+  }
+
+  /**
+   * Remove a site's policy so it follows the global settings again
+   */
+  async removeSitePolicy(origin: string): Promise<void> {
+    try {
+      const policies = await this.getSitePolicies();
+      delete policies[origin];
+      await chrome.storage.local.set({ sitePolicies: policies });
+      console.log(`Site policy removed for ${origin}`);
+    } catch (error) {
+      console.error("Error removing site policy:", error);
+    }
+  }
+
   /**
    * Check if Prompt API model is downloaded
    */
@@ -0,0 +1,778 @@
+import {
+  DEFAULT_CONFIG,
+  SUPPORTED_LANGUAGES,
+  normalizeConfig,
+  type SupportedLanguage,
+  type TranslationConfig,
+  type WordData,
+  type DifficultyLevel,
+  type WordState,
+} from "../utils/translationConfig";
+import { isPhrase } from "../utils/lemmatizer";
+import { storageService } from "./StorageService";
+import {
+  vocabularyRepository,
+  type WordDeletion,
+} from "./VocabularyRepository";
+
+/**
+ * Sync across devices through chrome.storage.sync (runs in the background
+ * service worker).
+ *
+ * - Config is mirrored as a whole under `config`, newest change wins.
+ * - Each device publishes its recently active words under
+ *   `vocab:<deviceId>` (a manifest) and `vocab:<deviceId>:<n>` (chunks below
+ *   the per-item quota). Other devices merge them: word fields are
+ *   last-writer-wins on `updatedAt`, and encounter counts are per-device
+ *   counters, so the same encounters are never added twice.
+ * - Deleted words are published as deletions alongside the words. They win
+ *   over copies last active before the deletion, and are dropped once every
+ *   other device's manifest says it has seen them.
+ */
+
+export type SyncState = "synced" | "syncing" | "conflict" | "quota" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  message?: string;
+  lastSyncedAt?: string;
+}
+
+interface SyncedConfig extends TranslationConfig {
+  updatedAt: string;
+}
+
+/**
+ * A word as published to chrome.storage.sync. Keys are kept short because
+ * the whole sync area is ~100 KB.
+ */
+interface SyncedWord {
+  l: SupportedLanguage; // Target language
+  w: string; // Word ID
+  s: string; // Source word
+  t: string; // Target word
+  sl: SupportedLanguage; // Source language
+  c: number; // Encounters counted on the publishing device
+  f: string; // First seen
+  ls: string; // Last seen
+  u?: string; // Last edit or review
+  d?: DifficultyLevel;
+  st?: WordState;
+  // Scheduling: ease factor, interval, repetitions, due date
+  r?: [number, number, number, string];
+}
+
+/**
+ * A word deleted on the publishing device
+ */
+interface SyncedDeletion {
+  l: SupportedLanguage; // Target language
+  w: string; // Word ID
+  x: string; // Deleted at
+}
+
+type SyncedItem = SyncedWord | SyncedDeletion;
+
+interface DeviceManifest {
+  chunks: number;
+  updatedAt: string;
+  // Manifest updatedAt of each device whose deletions were applied here
+  seen?: Record<string, string>;
+}
+
+/**
+ * Bookkeeping kept in chrome.storage.local
+ */
+interface LocalSyncState {
+  configSyncedAt?: string; // updatedAt of the last config pushed or applied
+  devices: Record<string, string>; // Manifest updatedAt applied per device
+  deletionsSeen?: Record<string, string>; // Published as the manifest `seen`
+  publishedHash?: string;
+  publishedChunks: number;
+}
+
+const VOCAB_PREFIX = "vocab:";
+const PUBLISH_ALARM = "tob-sync-publish";
+const PUBLISH_INTERVAL_MINUTES = 5;
+// Headroom below the quotas for keys and JSON overhead
+const ITEM_BYTES = chrome.storage.sync.QUOTA_BYTES_PER_ITEM - 256;
+const TOTAL_BYTES = Math.floor(chrome.storage.sync.QUOTA_BYTES * 0.9);
+// Devices that haven't published for this long stop taking up quota
+const STALE_DEVICE_MS = 60 * 24 * 60 * 60 * 1000;
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function isVocabKey(key: string): boolean {
+  return key.startsWith(VOCAB_PREFIX);
+}
+
+function isDeletion(item: SyncedItem): item is SyncedDeletion {
+  return "x" in item;
+}
+
+/**
+ * When a published word was last seen or edited
+ */
+function entryActivity(entry: SyncedWord): string {
+  return entry.u && entry.u > entry.ls ? entry.u : entry.ls;
+}
+
+function deletionKey(language: SupportedLanguage, wordId: string): string {
+  return `${language}:${wordId}`;
+}
+
+/**
+ * Compare every setting, so a new one can't be left out of sync
+ */
+function configsEqual(a: TranslationConfig, b: TranslationConfig): boolean {
+  return (Object.keys(DEFAULT_CONFIG) as (keyof TranslationConfig)[]).every(
+    (key) => a[key] === b[key]
+  );
+}
+
+/**
+ * Encounters counted on this device (the rest came from other devices)
+ */
+function getLocalCount(word: WordData): number {
+  const synced = Object.values(word.syncedCounts || {}).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  return Math.max(0, word.timesEncountered - synced);
+}
+
+function toSyncedWord(
+  language: SupportedLanguage,
+  wordId: string,
+  word: WordData
+): SyncedWord {
+  const entry: SyncedWord = {
+    l: language,
+    w: wordId,
+    s: word.source,
+    t: word.target,
+    sl: word.sourceLanguage,
+    c: getLocalCount(word),
+    f: word.firstSeenDate,
+    ls: word.lastSeenDate,
+  };
+  if (word.updatedAt) entry.u = word.updatedAt;
+  if (word.difficulty) entry.d = word.difficulty;
+  if (word.state) entry.st = word.state;
+  if (word.dueDate) {
+    entry.r = [
+      word.easeFactor ?? 0,
+      word.interval ?? 0,
+      word.repetitions ?? 0,
+      word.dueDate,
+    ];
+  }
+  return entry;
+}
+
+/**
+ * Merge a word published by another device into the stored word
+ */
+function mergeSyncedWord(
+  deviceId: string,
+  entry: SyncedWord,
+  existing: WordData | null
+): { word: WordData; conflict: boolean } {
+  const scheduling = entry.r
+    ? {
+        easeFactor: entry.r[0],
+        interval: entry.r[1],
+        repetitions: entry.r[2],
+        dueDate: entry.r[3],
+      }
+    : {};
+
+  if (!existing) {
+    return {
+      word: {
+        source: entry.s,
+        target: entry.t,
+        sourceLanguage: entry.sl,
+        ...(isPhrase(entry.s) ? { isPhrase: true } : {}),
+        timesEncountered: entry.c,
+        firstSeenDate: entry.f,
+        lastSeenDate: entry.ls,
+        difficulty: entry.d,
+        state: entry.st,
+        updatedAt: entry.u,
+        syncedCounts: { [deviceId]: entry.c },
+        ...scheduling,
+      },
+      conflict: false,
+    };
+  }
+
+  // Counters: only add what this device hasn't merged from that device yet
+  const previousCount = existing.syncedCounts?.[deviceId] ?? 0;
+  const word: WordData = {
+    ...existing,
+    timesEncountered:
+      existing.timesEncountered + Math.max(0, entry.c - previousCount),
+    syncedCounts: {
+      ...existing.syncedCounts,
+      [deviceId]: Math.max(previousCount, entry.c),
+    },
+    firstSeenDate:
+      entry.f < existing.firstSeenDate ? entry.f : existing.firstSeenDate,
+    lastSeenDate:
+      entry.ls > existing.lastSeenDate ? entry.ls : existing.lastSeenDate,
+  };
+
+  // Fields: last writer wins
+  const remoteIsNewer =
+    entry.u !== undefined &&
+    (existing.updatedAt === undefined || entry.u > existing.updatedAt);
+  if (!remoteIsNewer) {
+    return { word, conflict: false };
+  }
+
+  return {
+    word: {
+      ...word,
+      target: entry.t,
+      sourceLanguage: entry.sl,
+      difficulty: entry.d ?? existing.difficulty,
+      state: entry.st,
+      updatedAt: entry.u,
+      ...scheduling,
+    },
+    // Both devices edited the word; the older edit was overwritten
+    conflict: existing.updatedAt !== undefined,
+  };
+}
+
+/**
+ * Sync Service - Mirrors config and vocabulary through chrome.storage.sync
+ */
+class SyncService {
+  private deviceId: string | null = null;
+  // Config most recently written from another device, so its storage
+  // change isn't echoed back
+  private appliedRemoteConfig: TranslationConfig | null = null;
+  private onConfigApplied:
+    | ((previous: TranslationConfig, next: TranslationConfig) => void)
+    | null = null;
+
+  /**
+   * Start syncing. `onConfigApplied` runs after a config from another
+   * device is written locally, so open tabs can be updated.
+   */
+  start(
+    onConfigApplied: (
+      previous: TranslationConfig,
+      next: TranslationConfig
+    ) => void
+  ): void {
+    this.onConfigApplied = onConfigApplied;
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === "local" && changes.config?.newValue) {
+        this.handleLocalConfigChange(normalizeConfig(changes.config.newValue));
+      }
+
+      if (areaName === "sync") {
+        if (changes.config?.newValue) {
+          this.applyRemoteConfig(changes.config.newValue).then(
+            (conflict) => conflict && this.setStatus(conflict)
+          );
+        }
+        if (Object.keys(changes).some(isVocabKey)) {
+          this.pullVocabulary().then(
+            (conflict) => conflict && this.setStatus(conflict)
+          );
+        }
+      }
+    });
+
+    chrome.alarms.create(PUBLISH_ALARM, {
+      periodInMinutes: PUBLISH_INTERVAL_MINUTES,
+    });
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === PUBLISH_ALARM) {
+        this.sync();
+      }
+    });
+
+    this.sync();
+  }
+
+  /**
+   * Run a full sync: config, then other devices' words, then ours. The
+   * status shows the most pressing problem: quota, then conflicts.
+   */
+  async sync(): Promise<void> {
+    try {
+      await this.setStatus({ state: "syncing" });
+
+      const result = await chrome.storage.sync.get("config");
+      const configConflict = result.config
+        ? await this.applyRemoteConfig(result.config)
+        : null;
+      const wordConflict = await this.pullVocabulary();
+      const quotaIssue = await this.publishVocabulary();
+
+      await this.setStatus(
+        quotaIssue || configConflict || wordConflict || { state: "synced" }
+      );
+    } catch (error) {
+      console.error("[SyncService] Sync failed:", error);
+      await this.setStatus({ state: "error", message: String(error) });
+    }
+  }
+
+  /**
+   * Get the latest sync status (for the popup indicator)
+   */
+  async getStatus(): Promise<SyncStatus> {
+    try {
+      const result = await chrome.storage.local.get("syncStatus");
+      return result.syncStatus || { state: "synced" };
+    } catch (error) {
+      console.error("[SyncService] Error reading status:", error);
+      return { state: "error" };
+    }
+  }
+
+  /**
+   * Push a config changed on this device
+   */
+  private async handleLocalConfigChange(
+    config: TranslationConfig
+  ): Promise<void> {
+    if (
+      this.appliedRemoteConfig &&
+      configsEqual(config, this.appliedRemoteConfig)
+    ) {
+      this.appliedRemoteConfig = null;
+      return;
+    }
+
+    try {
+      const result = await chrome.storage.sync.get("config");
+      if (
+        result.config &&
+        configsEqual(config, normalizeConfig(result.config))
+      ) {
+        return;
+      }
+
+      const updatedAt = new Date().toISOString();
+      const synced: SyncedConfig = { ...config, updatedAt };
+      await chrome.storage.sync.set({ config: synced });
+      await this.updateLocalState({ configSyncedAt: updatedAt });
+      console.log("[SyncService] Config pushed");
+    } catch (error) {
+      console.error("[SyncService] Error pushing config:", error);
+      await this.setStatus({ state: "error", message: String(error) });
+    }
+  }
+
+  /**
+   * Apply a config pushed by another device, unless we've already seen it.
+   * The language pair only follows if its translator is downloaded here;
+   * otherwise a conflict status is returned.
+   */
+  private async applyRemoteConfig(
+    remote: SyncedConfig
+  ): Promise<SyncStatus | null> {
+    const state = await this.getLocalState();
+    if (state.configSyncedAt && remote.updatedAt <= state.configSyncedAt) {
+      return null;
+    }
+
+    const incoming = normalizeConfig(remote);
+    const previous = await storageService.getConfig();
+    const pairDownloaded = await storageService.isLanguageDownloaded(
+      incoming.activeLanguage,
+      incoming.sourceLanguage
+    );
+
+    const next: TranslationConfig = {
+      ...incoming,
+      sourceLanguage: pairDownloaded
+        ? incoming.sourceLanguage
+        : previous.sourceLanguage,
+      activeLanguage: pairDownloaded
+        ? incoming.activeLanguage
+        : previous.activeLanguage,
+    };
+
+    await this.updateLocalState({ configSyncedAt: remote.updatedAt });
+
+    if (!configsEqual(previous, next)) {
+      this.appliedRemoteConfig = next;
+      await chrome.storage.local.set({ config: next });
+      console.log("[SyncService] Config applied from another device:", next);
+      this.onConfigApplied?.(previous, next);
+    }
+
+    return pairDownloaded
+      ? null
+      : {
+          state: "conflict",
+          message: `Another device switched to ${
+            SUPPORTED_LANGUAGES[incoming.activeLanguage].displayName
+          }; download it here to follow`,
+        };
+  }
+
+  /**
+   * Merge words published by other devices. Returns a conflict status if
+   * words edited on two devices were resolved.
+   */
+  private async pullVocabulary(): Promise<SyncStatus | null> {
+    const deviceId = await this.getDeviceId();
+    const [items, state] = await Promise.all([
+      chrome.storage.sync.get(null),
+      this.getLocalState(),
+    ]);
+
+    const now = Date.now();
+    const staleKeys: string[] = [];
+    const manifests = new Map<string, SyncedItem[]>();
+
+    for (const [key, value] of Object.entries(items)) {
+      // Manifests are "vocab:<deviceId>"; chunks have a further ":<n>"
+      if (!isVocabKey(key) || key.indexOf(":", VOCAB_PREFIX.length) !== -1) {
+        continue;
+      }
+
+      const otherDevice = key.slice(VOCAB_PREFIX.length);
+      const manifest = value as DeviceManifest;
+      if (otherDevice === deviceId) continue;
+
+      if (now - new Date(manifest.updatedAt).getTime() > STALE_DEVICE_MS) {
+        staleKeys.push(key);
+        for (let i = 0; i < manifest.chunks; i++) {
+          staleKeys.push(`${key}:${i}`);
+        }
+        continue;
+      }
+
+      const chunkItems: SyncedItem[] = [];
+      for (let i = 0; i < manifest.chunks; i++) {
+        chunkItems.push(...((items[`${key}:${i}`] as SyncedItem[]) || []));
+      }
+      manifests.set(otherDevice, chunkItems);
+    }
+
+    // Every known deletion, so a device that hasn't applied one yet can't
+    // bring the word back
+    const deletedAt = new Map<string, string>();
+    const noteDeletion = (
+      language: SupportedLanguage,
+      wordId: string,
+      at: string
+    ) => {
+      const key = deletionKey(language, wordId);
+      if (at > (deletedAt.get(key) ?? "")) deletedAt.set(key, at);
+    };
+    for (const deletion of await vocabularyRepository.getDeletions()) {
+      noteDeletion(deletion.language, deletion.wordId, deletion.deletedAt);
+    }
+    for (const chunkItems of manifests.values()) {
+      chunkItems.filter(isDeletion).forEach((d) => noteDeletion(d.l, d.w, d.x));
+    }
+
+    const deletionsSeen = { ...state.deletionsSeen };
+    let merged = 0;
+    let deleted = 0;
+    let conflicts = 0;
+
+    for (const [otherDevice, chunkItems] of manifests) {
+      const manifest = items[`${VOCAB_PREFIX}${otherDevice}`] as DeviceManifest;
+      const applied = state.devices[otherDevice];
+      if (applied && manifest.updatedAt <= applied) continue;
+
+      const deletions = chunkItems.filter(isDeletion);
+      deleted += await this.applyDeletions(deletions);
+      if (deletions.length > 0) {
+        deletionsSeen[otherDevice] = manifest.updatedAt;
+      }
+
+      const result = await this.mergeEntries(
+        otherDevice,
+        chunkItems.filter((item): item is SyncedWord => !isDeletion(item)),
+        deletedAt
+      );
+      merged += result.merged;
+      conflicts += result.conflicts;
+      state.devices[otherDevice] = manifest.updatedAt;
+    }
+
+    await this.updateLocalState({ devices: state.devices, deletionsSeen });
+
+    // Only the owning device writes its keys, except to clear out devices
+    // that are long gone
+    if (staleKeys.length > 0) {
+      await chrome.storage.sync.remove(staleKeys);
+      console.log(`[SyncService] Removed ${staleKeys.length} stale sync items`);
+    }
+
+    if (merged > 0) {
+      console.log(
+        `[SyncService] Merged ${merged} words (${conflicts} conflicts resolved)`
+      );
+    }
+    if (deleted > 0) {
+      console.log(`[SyncService] Deleted ${deleted} words`);
+    }
+    return conflicts > 0
+      ? {
+          state: "conflict",
+          message: `${conflicts} word${
+            conflicts === 1 ? "" : "s"
+          } edited on two devices; kept the newest`,
+        }
+      : null;
+  }
+
+  /**
+   * Apply one device's deletions, one transaction per language
+   */
+  private async applyDeletions(deletions: SyncedDeletion[]): Promise<number> {
+    const byLanguage = new Map<
+      SupportedLanguage,
+      { wordId: string; deletedAt: string }[]
+    >();
+    for (const deletion of deletions) {
+      const words = byLanguage.get(deletion.l) || [];
+      words.push({ wordId: deletion.w, deletedAt: deletion.x });
+      byLanguage.set(deletion.l, words);
+    }
+
+    let deleted = 0;
+    for (const [language, words] of byLanguage) {
+      deleted += await vocabularyRepository.applyDeletions(language, words);
+    }
+    return deleted;
+  }
+
+  /**
+   * Merge one device's entries, one transaction per language. Words missing
+   * here aren't recreated if they were deleted after their last activity.
+   */
+  private async mergeEntries(
+    deviceId: string,
+    entries: SyncedWord[],
+    deletedAt: Map<string, string>
+  ): Promise<{ merged: number; conflicts: number }> {
+    const byLanguage = new Map<SupportedLanguage, Map<string, SyncedWord>>();
+    for (const entry of entries) {
+      const words = byLanguage.get(entry.l) || new Map();
+      words.set(entry.w, entry);
+      byLanguage.set(entry.l, words);
+    }
+
+    let merged = 0;
+    let conflicts = 0;
+
+    for (const [language, words] of byLanguage) {
+      merged += await vocabularyRepository.updateWords(
+        language,
+        [...words.keys()],
+        (wordId, existing) => {
+          const entry = words.get(wordId)!;
+          const deletion = deletedAt.get(deletionKey(language, wordId));
+          if (!existing && deletion && entryActivity(entry) <= deletion) {
+            return null;
+          }
+          const result = mergeSyncedWord(deviceId, entry, existing);
+          if (result.conflict) conflicts++;
+          return result.word;
+        }
+      );
+    }
+
+    return { merged, conflicts };
+  }
+
+  /**
+   * Publish this device's most recently active words, as many as fit in
+   * its share of the sync quota. Returns a quota status if some didn't fit.
+   */
+  private async publishVocabulary(): Promise<SyncStatus | null> {
+    const deviceId = await this.getDeviceId();
+    const manifestKey = `${VOCAB_PREFIX}${deviceId}`;
+    const [items, state] = await Promise.all([
+      chrome.storage.sync.get(null),
+      this.getLocalState(),
+    ]);
+
+    // Split the quota between every device currently publishing
+    const otherManifests = Object.keys(items).filter(
+      (key) =>
+        isVocabKey(key) &&
+        key !== manifestKey &&
+        key.indexOf(":", VOCAB_PREFIX.length) === -1
+    );
+    const configBytes = items.config ? byteLength(items.config) : 0;
+    const budget = Math.floor(
+      (TOTAL_BYTES - configBytes) / (otherManifests.length + 1)
+    );
+
+    // Most recently active first
+    const entries: SyncedWord[] = [];
+    const localWords = new Set<string>();
+    for (const language of Object.keys(
+      SUPPORTED_LANGUAGES
+    ) as SupportedLanguage[]) {
+      const words = await vocabularyRepository.getWords(language);
+      for (const [wordId, word] of Object.entries(words)) {
+        entries.push(toSyncedWord(language, wordId, word));
+        localWords.add(deletionKey(language, wordId));
+      }
+    }
+    entries.sort((a, b) => entryActivity(b).localeCompare(entryActivity(a)));
+
+    // Deletions go first; drop those that are done with
+    const manifests = otherManifests.map((key) => items[key] as DeviceManifest);
+    const deletions = await vocabularyRepository.getDeletions();
+    const done = deletions.filter(
+      (deletion) =>
+        localWords.has(deletionKey(deletion.language, deletion.wordId)) ||
+        Date.now() - new Date(deletion.deletedAt).getTime() > STALE_DEVICE_MS ||
+        manifests.every(
+          (manifest) => (manifest.seen?.[deviceId] ?? "") >= deletion.deletedAt
+        )
+    );
+    if (done.length > 0) {
+      await vocabularyRepository.removeDeletions(done);
+    }
+    const outgoing: SyncedItem[] = [
+      ...deletions
+        .filter((deletion) => !done.includes(deletion))
+        .map(
+          (deletion: WordDeletion): SyncedDeletion => ({
+            l: deletion.language,
+            w: deletion.wordId,
+            x: deletion.deletedAt,
+          })
+        ),
+      ...entries,
+    ];
+
+    // Pack items into chunks below the per-item quota
+    const chunks: SyncedItem[][] = [];
+    let current: SyncedItem[] = [];
+    let currentBytes = 2;
+    let totalBytes = 0;
+    let published = 0;
+
+    for (const entry of outgoing) {
+      const entryBytes = byteLength(entry) + 1;
+      if (currentBytes + entryBytes > ITEM_BYTES) {
+        chunks.push(current);
+        current = [];
+        currentBytes = 2;
+      }
+      if (totalBytes + entryBytes > budget) {
+        break;
+      }
+      current.push(entry);
+      currentBytes += entryBytes;
+      totalBytes += entryBytes;
+      if (!isDeletion(entry)) published++;
+    }
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+
+    const seen = state.deletionsSeen;
+    const hash = JSON.stringify({ chunks, seen });
+    const unsynced = entries.length - published;
+
+    if (hash !== state.publishedHash) {
+      const updates: Record<string, unknown> = {
+        [manifestKey]: {
+          chunks: chunks.length,
+          updatedAt: new Date().toISOString(),
+          seen,
+        } satisfies DeviceManifest,
+      };
+      chunks.forEach((chunk, i) => {
+        updates[`${manifestKey}:${i}`] = chunk;
+      });
+
+      try {
+        await chrome.storage.sync.set(updates);
+      } catch (error) {
+        console.error("[SyncService] Error publishing vocabulary:", error);
+        return {
+          state: "quota",
+          message: "Sync storage is full; recent words will sync later",
+        };
+      }
+
+      // Drop chunks left over from a larger previous publish
+      const leftover: string[] = [];
+      for (let i = chunks.length; i < state.publishedChunks; i++) {
+        leftover.push(`${manifestKey}:${i}`);
+      }
+      if (leftover.length > 0) {
+        await chrome.storage.sync.remove(leftover);
+      }
+
+      await this.updateLocalState({
+        publishedHash: hash,
+        publishedChunks: chunks.length,
+      });
+      console.log(`[SyncService] Published ${published} words`);
+    }
+
+    return unsynced > 0
+      ? {
+          state: "quota",
+          message: `${unsynced} older word${
+            unsynced === 1 ? "" : "s"
+          } didn't fit in sync storage`,
+        }
+      : null;
+  }
+
+  /**
+   * Random ID for this browser profile, created on first use
+   */
+  private async getDeviceId(): Promise<string> {
+    if (this.deviceId) {
+      return this.deviceId;
+    }
+
+    const result = await chrome.storage.local.get("system");
+    const system = result.system || {};
+    if (!system.deviceId) {
+      system.deviceId = crypto.randomUUID();
+      await chrome.storage.local.set({ system });
+    }
+
+    this.deviceId = system.deviceId as string;
+    return this.deviceId;
+  }
+
+  private async getLocalState(): Promise<LocalSyncState> {
+    const result = await chrome.storage.local.get("syncState");
+    return { devices: {}, publishedChunks: 0, ...result.syncState };
+  }
+
+  private async updateLocalState(
+    updates: Partial<LocalSyncState>
+  ): Promise<void> {
+    const state = await this.getLocalState();
+    await chrome.storage.local.set({ syncState: { ...state, ...updates } });
+  }
+
+  private async setStatus(status: SyncStatus): Promise<void> {
+    await chrome.storage.local.set({
+      syncStatus: { ...status, lastSyncedAt: new Date().toISOString() },
+    });
+  }
+}
+
+export const syncService = new SyncService();
@@ -3,6 +3,7 @@ import {
   getTranslationConfig as loadConfig,
   setTranslationConfig,
   getLanguageCode,
+  applySitePolicy,
   type SupportedLanguage,
 } from "../utils/translationConfig";
 import { promptService } from "./PromptService";
@@ -15,6 +16,7 @@ import { storageService } from "./StorageService";
 class TranslationService {
   private config: TranslationConfig | null = null;
   private currentLanguage: SupportedLanguage | null = null;
+  private sourceLanguage: SupportedLanguage | null = null;
   private initPromise: Promise<void> | null = null;
 
   /**
@@ -31,13 +33,21 @@ class TranslationService {
       console.log("Initializing translation services...");
 
       // Load configuration
-      this.config = await loadConfig();
+      this.config = await this.loadSiteConfig();
       console.log("Translation config loaded:", this.config);
 
-      const activeLanguage = this.config.activeLanguage;
+      const { activeLanguage, sourceLanguage } = this.config;
       this.currentLanguage = activeLanguage;
+      this.sourceLanguage = sourceLanguage;
 
-      // Get language code for Translator API
+      if (sourceLanguage === activeLanguage) {
+        throw new Error(
+          `Source and target language are both "${sourceLanguage}"`
+        );
+      }
+
+      // Get language codes for Translator API
+      const sourceLanguageCode = getLanguageCode(sourceLanguage);
       const targetLanguageCode = getLanguageCode(activeLanguage);
 
       try {
@@ -50,7 +60,7 @@ class TranslationService {
         // Initialize Translator API
         onProgress?.(50, "Initializing translator...");
         await translatorService.initialize(
-          "en",
+          sourceLanguageCode,
           targetLanguageCode,
           (progress) => {
             onProgress?.(
@@ -71,6 +81,17 @@ class TranslationService {
     return this.initPromise;
   }
 
+  /**
+   * Load the global config with this site's overrides applied
+   */
+  private async loadSiteConfig(): Promise<TranslationConfig> {
+    const [config, sitePolicy] = await Promise.all([
+      loadConfig(),
+      storageService.getSitePolicy(location.origin),
+    ]);
+    return applySitePolicy(config, sitePolicy);
+  }
+
   /**
    * Switch to a different language
    */
@@ -84,7 +105,7 @@ class TranslationService {
 
     // Update config
     await setTranslationConfig({ activeLanguage: newLanguage });
-    this.config = await loadConfig();
+    this.config = await this.loadSiteConfig();
 
     // Reset services
     this.reset();
@@ -103,17 +124,21 @@ class TranslationService {
     console.log("Updating translation config:", newConfig);
 
     const currentLanguage = this.config?.activeLanguage;
-    const newLanguage = newConfig.activeLanguage;
+    const currentSourceLanguage = this.config?.sourceLanguage;
+    const newLanguage = newConfig.activeLanguage || currentLanguage;
+    const sourceChanged =
+      newConfig.sourceLanguage !== undefined &&
+      newConfig.sourceLanguage !== currentSourceLanguage;
 
     // Save to storage
     await setTranslationConfig(newConfig);
 
-    // If language changed, need to reinitialize
-    if (newLanguage && newLanguage !== currentLanguage) {
+    // If either side of the language pair changed, need to reinitialize
+    if (newLanguage && (newLanguage !== currentLanguage || sourceChanged)) {
       await this.switchLanguage(newLanguage);
     } else {
       // Just update config
-      this.config = await loadConfig();
+      this.config = await this.loadSiteConfig();
     }
   }
 
@@ -157,6 +182,16 @@ class TranslationService {
     return this.currentLanguage;
   }
 
+  /**
+   * Get current source (native) language
+   */
+  getSourceLanguage(): SupportedLanguage {
+    if (!this.sourceLanguage) {
+      throw new Error("Translation service not initialized");
+    }
+    return this.sourceLanguage;
+  }
+
   /**
    * Check if all services are initialized
    */
@@ -177,6 +212,7 @@ class TranslationService {
     translatorService.reset();
     this.config = null;
     this.currentLanguage = null;
+    this.sourceLanguage = null;
     this.initPromise = null;
   }
 }
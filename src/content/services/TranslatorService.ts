@@ -11,6 +11,9 @@ class TranslatorService {
   private sourceLanguage: string = "en";
   private targetLanguage: string = "fr";
   private initPromise: Promise<void> | null = null;
+  // Translators into the target language from other page languages, for
+  // blocks not written in the source language
+  private extraTranslators = new Map<string, Promise<any | null>>();
 
   /**
    * Check if Translator API is available
@@ -99,16 +102,75 @@ class TranslatorService {
   }
 
   /**
-   * Translate text (can be sentence, paragraph, or batch)
+   * Whether text in another language can be translated into the target
+   * language. Only models already on the device are used, since a download
+   * needs a user gesture.
    */
-  async translateText(text: string): Promise<string> {
-    if (!this.translator) {
+  async canTranslateFrom(sourceLanguage: string): Promise<boolean> {
+    if (sourceLanguage === this.sourceLanguage) {
+      return this.translator !== null;
+    }
+    if (sourceLanguage === this.targetLanguage) {
+      return false;
+    }
+
+    try {
+      return (await this.getExtraTranslator(sourceLanguage)) !== null;
+    } catch (error) {
+      console.warn(`No translator from ${sourceLanguage}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Translator from another language into the target language, created on
+   * first use; null when its model isn't installed
+   */
+  private getExtraTranslator(sourceLanguage: string): Promise<any | null> {
+    let translator = this.extraTranslators.get(sourceLanguage);
+    if (!translator) {
+      const targetLanguage = this.targetLanguage;
+      translator = (async () => {
+        const availability = await this.isAvailable(
+          sourceLanguage,
+          targetLanguage
+        );
+        if (
+          ["no", "unavailable", "downloadable", "downloading"].includes(
+            availability
+          )
+        ) {
+          return null;
+        }
+        console.log(
+          `Creating translator for ${sourceLanguage} → ${targetLanguage} blocks`
+        );
+        return (self as any).Translator.create({
+          sourceLanguage,
+          targetLanguage,
+        });
+      })();
+      this.extraTranslators.set(sourceLanguage, translator);
+    }
+    return translator;
+  }
+
+  /**
+   * Translate text (can be sentence, paragraph, or batch), from the source
+   * language unless another one is given
+   */
+  async translateText(text: string, sourceLanguage?: string): Promise<string> {
+    const translator =
+      sourceLanguage && sourceLanguage !== this.sourceLanguage
+        ? await this.getExtraTranslator(sourceLanguage)
+        : this.translator;
+    if (!translator) {
       throw new Error("Translator API not initialized");
     }
 
     try {
       console.log(`Translating text (${text.length} chars)...`);
-      const translation = await this.translator.translate(text);
+      const translation = await translator.translate(text);
 
       if (!translation || translation.trim().length === 0) {
         console.warn("Empty translation received");
@@ -143,6 +205,7 @@ class TranslatorService {
   reset(): void {
     this.translator = null;
     this.initPromise = null;
+    this.extraTranslators.clear();
   }
 }
 
@@ -0,0 +1,347 @@
+import {
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  type SupportedLanguage,
+  type LanguageStats,
+  type WordData,
+  type DifficultyLevel,
+} from "../utils/translationConfig";
+import { replaceWordMatches } from "../utils/textExtraction";
+import { storageService } from "./StorageService";
+import {
+  vocabularyRepository,
+  type EncounterRecord,
+  type QuizResultRecord,
+  type GlossaryEntry,
+} from "./VocabularyRepository";
+
+export type ExportFormat = "anki" | "csv" | "json";
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const BACKUP_FORMAT = "tower-of-babel-vocabulary";
+const BACKUP_VERSION = 1;
+
+/**
+ * Everything stored for one language, as written to a JSON backup
+ */
+interface LanguageBackup {
+  stats: LanguageStats;
+  words: Record<string, WordData>;
+  encounters: EncounterRecord[];
+  quizResults: QuizResultRecord[];
+  glossary?: GlossaryEntry[]; // Absent in backups made before corrections
+}
+
+interface VocabularyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  languages: Partial<Record<SupportedLanguage, LanguageBackup>>;
+}
+
+/**
+ * A word with the encounters it was seen in (most recent first)
+ */
+interface ExportEntry {
+  wordId: string;
+  word: WordData;
+  encounters: EncounterRecord[];
+}
+
+/**
+ * Escape text for an HTML Anki field
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Tabs and newlines would break the TSV row
+ */
+function toTsvField(text: string): string {
+  return text.replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function toCsvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The most recent encounter that has a sentence, for the example field
+ */
+function getExample(entry: ExportEntry): EncounterRecord | undefined {
+  return entry.encounters.find((encounter) => encounter.sentence);
+}
+
+/**
+ * Anki plain-text import: a header of file directives, then one Basic-style
+ * note per word. Front is the word being learned, Back its meaning; the
+ * example sentence bolds the word as it appeared on the page.
+ */
+function formatAnki(
+  entries: ExportEntry[],
+  language: SupportedLanguage,
+  fallbackDifficulty: DifficultyLevel
+): string {
+  const header = [
+    "#separator:tab",
+    "#html:true",
+    "#columns:Front\tBack\tExample\tSource\tTags",
+    "#tags column:5",
+  ];
+
+  const rows = entries.map((entry) => {
+    const { word } = entry;
+    const example = getExample(entry);
+    const exampleHtml = example?.sentence
+      ? replaceWordMatches(
+          escapeHtml(example.sentence),
+          escapeHtml(word.source),
+          word.sourceLanguage,
+          (match) => `<b>${match}</b>`
+        )
+      : "";
+    const sourceHtml = example?.url
+      ? `<a href="${escapeHtml(example.url)}">${escapeHtml(
+          example.pageTitle || example.url
+        )}</a>`
+      : "";
+    const tags = [
+      "tower-of-babel",
+      `language::${language}`,
+      `difficulty::${word.difficulty || fallbackDifficulty}`,
+    ].join(" ");
+
+    return [
+      escapeHtml(word.target),
+      escapeHtml(word.source),
+      exampleHtml,
+      sourceHtml,
+      tags,
+    ]
+      .map(toTsvField)
+      .join("\t");
+  });
+
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+/**
+ * One row per word, for spreadsheets
+ */
+function formatCsv(
+  entries: ExportEntry[],
+  language: SupportedLanguage
+): string {
+  const header = [
+    "source",
+    "target",
+    "source_language",
+    "target_language",
+    "times_encountered",
+    "first_seen",
+    "last_seen",
+    "due_date",
+    "example_sentence",
+    "source_url",
+  ];
+
+  const rows = entries.map((entry) => {
+    const { word } = entry;
+    const example = getExample(entry);
+    return [
+      word.source,
+      word.target,
+      word.sourceLanguage,
+      language,
+      word.timesEncountered,
+      word.firstSeenDate,
+      word.lastSeenDate,
+      word.dueDate,
+      example?.sentence,
+      example?.url,
+    ]
+      .map(toCsvField)
+      .join(",");
+  });
+
+  // RFC 4180 line endings
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+/**
+ * Check that parsed JSON looks like one of our backups
+ */
+function isVocabularyBackup(value: any): value is VocabularyBackup {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    value.format === BACKUP_FORMAT &&
+    typeof value.version === "number" &&
+    value.languages !== null &&
+    typeof value.languages === "object"
+  );
+}
+
+/**
+ * Vocabulary Export Service - Exports collected words for Anki and
+ * spreadsheets, and backs up / restores the full vocabulary as JSON
+ */
+class VocabularyExportService {
+  /**
+   * Export a language's words (Anki, CSV) or every language (JSON backup)
+   */
+  async exportVocabulary(
+    format: ExportFormat,
+    language: SupportedLanguage
+  ): Promise<ExportFile> {
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === "json") {
+      const backup = await this.createBackup();
+      return {
+        filename: `tower-of-babel-backup-${date}.json`,
+        mimeType: "application/json",
+        content: JSON.stringify(backup, null, 2),
+      };
+    }
+
+    const entries = await this.getEntries(language);
+
+    if (format === "anki") {
+      const difficulty = await storageService.getDifficulty();
+      return {
+        filename: `tower-of-babel-${language}-anki-${date}.txt`,
+        mimeType: "text/tab-separated-values",
+        content: formatAnki(entries, language, difficulty),
+      };
+    }
+
+    return {
+      filename: `tower-of-babel-${language}-${date}.csv`,
+      mimeType: "text/csv",
+      content: formatCsv(entries, language),
+    };
+  }
+
+  /**
+   * Merge a JSON backup into the stored vocabulary. Words already present
+   * are merged rather than duplicated, so restoring the same backup twice
+   * is harmless.
+   */
+  async importBackup(
+    text: string
+  ): Promise<{ languages: number; added: number; updated: number }> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+
+    if (!isVocabularyBackup(parsed)) {
+      throw new Error("The file is not a Tower of Babel vocabulary backup");
+    }
+    if (parsed.version > BACKUP_VERSION) {
+      throw new Error(
+        "This backup was made by a newer version of the extension"
+      );
+    }
+
+    const summary = { languages: 0, added: 0, updated: 0 };
+
+    for (const [language, data] of Object.entries(parsed.languages)) {
+      if (!isSupportedLanguage(language) || !data?.words) {
+        console.warn(`[VocabularyExportService] Skipping ${language}`);
+        continue;
+      }
+
+      const result = await vocabularyRepository.mergeLanguage(language, data);
+      summary.languages++;
+      summary.added += result.added;
+      summary.updated += result.updated;
+    }
+
+    console.log("[VocabularyExportService] Backup imported:", summary);
+    return summary;
+  }
+
+  /**
+   * Every stored language with its words, encounters and quiz results
+   */
+  private async createBackup(): Promise<VocabularyBackup> {
+    const languages: VocabularyBackup["languages"] = {};
+
+    for (const language of Object.keys(
+      SUPPORTED_LANGUAGES
+    ) as SupportedLanguage[]) {
+      const words = await storageService.getWords(language);
+      if (Object.keys(words).length === 0) {
+        continue;
+      }
+
+      const [stats, encounters, quizResults, glossary] = await Promise.all([
+        storageService.getStats(language),
+        vocabularyRepository.getEncounters(language),
+        vocabularyRepository.getQuizResults(language),
+        vocabularyRepository.getGlossary(language),
+      ]);
+      languages[language] = {
+        stats,
+        words,
+        encounters,
+        quizResults,
+        glossary,
+      };
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      languages,
+    };
+  }
+
+  /**
+   * A language's words with their encounters, most encountered first
+   */
+  private async getEntries(
+    language: SupportedLanguage
+  ): Promise<ExportEntry[]> {
+    const [words, encounters] = await Promise.all([
+      storageService.getWords(language),
+      vocabularyRepository.getEncounters(language),
+    ]);
+
+    const encountersByWord = new Map<string, EncounterRecord[]>();
+    for (const encounter of encounters.reverse()) {
+      const list = encountersByWord.get(encounter.wordId) || [];
+      list.push(encounter);
+      encountersByWord.set(encounter.wordId, list);
+    }
+
+    return Object.entries(words)
+      .map(([wordId, word]) => ({
+        wordId,
+        word,
+        encounters: encountersByWord.get(wordId) || [],
+      }))
+      .sort((a, b) => b.word.timesEncountered - a.word.timesEncountered);
+  }
+}
+
+export const vocabularyExportService = new VocabularyExportService();
@@ -0,0 +1,1649 @@
+import type {
+  SupportedLanguage,
+  LanguageStats,
+  LanguageData,
+  WordData,
+  ReviewGrade,
+  DifficultyLevel,
+  WordState,
+  WordGrammar,
+} from "../utils/translationConfig";
+import { scheduleReview } from "../utils/spacedRepetition";
+import { isPhrase } from "../utils/lemmatizer";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  STORES,
+} from "../utils/database";
+import { isExtensionContext, callBackground } from "../utils/backgroundRpc";
+
+// Meta key set once the chrome.storage.local vocabulary has been imported
+const IMPORT_FLAG = "vocabularyImported";
+// Meta keys of deleted words, kept until sync has deleted them everywhere
+const DELETION_PREFIX = "deletedWord:";
+// Only the most recent encounters of each word are kept
+const MAX_ENCOUNTERS_PER_WORD = 10;
+const MAX_SENTENCE_LENGTH = 300;
+// A word translated differently in context ("bank" → "rive" / "banque") is
+// stored once per sense: "bank", "bank#2", "bank#3"... A "#" in the word
+// itself is escaped (see getBaseWordId())
+const SENSE_SEPARATOR = "#";
+const MAX_SENSES_PER_WORD = 4;
+// Inflected forms ("running", "ran") kept on a word stored under its lemma
+const MAX_FORMS_PER_WORD = 12;
+
+/**
+ * A word as stored in IndexedDB: the word data plus its key and an indexed
+ * due timestamp (0 until the word is first reviewed)
+ */
+interface WordRecord extends WordData {
+  language: SupportedLanguage;
+  wordId: string;
+  dueAt: number;
+}
+
+interface StatsRecord extends LanguageStats {
+  language: SupportedLanguage;
+}
+
+/**
+ * Where a word was seen: the sentence it was translated in and the page
+ */
+export interface EncounterContext {
+  sentence?: string;
+  url?: string;
+  pageTitle?: string;
+  difficulty?: DifficultyLevel; // Kept on the word when it is first seen
+  form?: string; // The word as inflected on the page, if not the lemma
+  targetForm?: string; // Its translation as shown on the page
+  grammar?: WordGrammar; // Kept on the word when it is first given
+}
+
+/**
+ * One translation of a word on a page
+ */
+export interface EncounterRecord {
+  id?: number;
+  language: SupportedLanguage;
+  wordId: string;
+  sentence?: string;
+  url?: string;
+  pageTitle?: string;
+  form?: string;
+  targetForm?: string;
+  date: string;
+}
+
+/**
+ * One quiz answer for a word
+ */
+export interface QuizResultRecord {
+  id?: number;
+  language: SupportedLanguage;
+  wordId: string;
+  grade: ReviewGrade;
+  interval: number;
+  date: string;
+}
+
+/**
+ * A learner's correction of a translation, preferred over model output
+ */
+export interface GlossaryEntry {
+  language: SupportedLanguage;
+  source: string; // Word ID of the corrected sense ("bank", "bank#2")
+  target: string;
+  replaced?: string; // Translation it corrected, absent in older entries
+  sourceLanguage: SupportedLanguage;
+  updatedAt: string;
+}
+
+/**
+ * A word deleted on this device, so sync deletes it on the others instead
+ * of bringing it back from them
+ */
+export interface WordDeletion {
+  language: SupportedLanguage;
+  wordId: string;
+  deletedAt: string;
+}
+
+/**
+ * Source words (lowercase) that steer word selection on a page
+ */
+export interface WordSelectionHints {
+  ignored: string[]; // Never translated
+  known: string[]; // Known or mastered: only used to fill up a batch
+  due: string[]; // Due for review: picked whenever they appear
+}
+
+function emptyStats(): LanguageStats {
+  return {
+    totalWordsEncountered: 0,
+    totalPagesTranslated: 0,
+    lastActiveDate: new Date().toISOString(),
+  };
+}
+
+function toWordRecord(
+  language: SupportedLanguage,
+  wordId: string,
+  word: WordData
+): WordRecord {
+  return {
+    ...word,
+    language,
+    wordId,
+    dueAt: word.dueDate ? new Date(word.dueDate).getTime() : 0,
+  };
+}
+
+function toWordData(record: WordRecord): WordData {
+  const { language, wordId, dueAt, ...word } = record;
+  return word;
+}
+
+function toEntries(records: WordRecord[]): [string, WordData][] {
+  return records.map((record) => [record.wordId, toWordData(record)]);
+}
+
+/**
+ * Key range over every [language, wordId] key of a language, or one word
+ */
+function wordKeyRange(
+  language: SupportedLanguage,
+  wordId?: string
+): IDBKeyRange {
+  return wordId !== undefined
+    ? IDBKeyRange.only([language, wordId])
+    : IDBKeyRange.bound([language, ""], [language, "\uffff"]);
+}
+
+/**
+ * Word ID of a word's first sense. "#" separates senses, so it is escaped
+ * in the word ("c#" → "c%23"), and "%" with it to keep IDs unambiguous.
+ */
+export function getBaseWordId(source: string): string {
+  return source.toLowerCase().replace(/%/g, "%25").replace(/#/g, "%23");
+}
+
+/**
+ * Key range over a word and all of its senses
+ */
+function senseKeyRange(
+  language: SupportedLanguage,
+  baseId: string
+): IDBKeyRange {
+  return IDBKeyRange.bound(
+    [language, baseId],
+    [language, `${baseId}${SENSE_SEPARATOR}\uffff`]
+  );
+}
+
+function isSenseOf(wordId: string, baseId: string): boolean {
+  return wordId === baseId || wordId.startsWith(baseId + SENSE_SEPARATOR);
+}
+
+/**
+ * Pick the sense an encounter belongs to: the one with the same
+ * translation, else a new sense (the base ID for the first one). Once a word
+ * has the maximum number of senses, new translations go to its most
+ * encountered sense.
+ */
+function resolveSense(
+  senses: WordRecord[],
+  baseId: string,
+  target: string
+): { wordId: string; existing?: WordRecord } {
+  const normalized = target.toLowerCase();
+  const match = senses.find(
+    (sense) => sense.target.toLowerCase() === normalized
+  );
+  if (match) {
+    return { wordId: match.wordId, existing: match };
+  }
+  if (senses.length === 0) {
+    return { wordId: baseId };
+  }
+  if (senses.length >= MAX_SENSES_PER_WORD) {
+    const busiest = senses.reduce((a, b) =>
+      b.timesEncountered > a.timesEncountered ? b : a
+    );
+    return { wordId: busiest.wordId, existing: busiest };
+  }
+
+  const numbers = senses.map(
+    (sense) => Number(sense.wordId.split(SENSE_SEPARATOR)[1]) || 1
+  );
+  return {
+    wordId: `${baseId}${SENSE_SEPARATOR}${Math.max(...numbers) + 1}`,
+  };
+}
+
+/**
+ * The learner's correction of a word for a translation given by the model:
+ * the one of the sense it corrected. Entries saved before senses were
+ * corrected separately don't know the translation they replaced and cover
+ * every sense of their word.
+ */
+export function findCorrection(
+  glossary: Record<string, GlossaryEntry>,
+  source: string,
+  translation: string
+): GlossaryEntry | undefined {
+  const baseId = getBaseWordId(source);
+  const normalized = translation.toLowerCase();
+  const corrections = Object.values(glossary).filter((entry) =>
+    isSenseOf(entry.source, baseId)
+  );
+  return (
+    corrections.find(
+      (entry) =>
+        entry.replaced?.toLowerCase() === normalized ||
+        entry.target.toLowerCase() === normalized
+    ) ?? corrections.find((entry) => entry.source === baseId && !entry.replaced)
+  );
+}
+
+/**
+ * Add an inflected form to a word's forms, most recent last. The lemma
+ * itself is not listed.
+ */
+function addForm(
+  forms: string[] | undefined,
+  form: string | undefined,
+  lemma: string
+): string[] | undefined {
+  const normalized = form?.toLowerCase();
+  if (!normalized || normalized === lemma.toLowerCase()) {
+    return forms;
+  }
+  const kept = (forms || []).filter((existing) => existing !== normalized);
+  return [...kept, normalized].slice(-MAX_FORMS_PER_WORD);
+}
+
+/**
+ * Words marked known, mastered or ignored are out of the quiz rotation
+ */
+function isInRotation(word: WordData): boolean {
+  return !word.state;
+}
+
+/**
+ * When a word was last seen or edited
+ */
+function lastActivity(word: WordData): string {
+  return word.updatedAt && word.updatedAt > word.lastSeenDate
+    ? word.updatedAt
+    : word.lastSeenDate;
+}
+
+function deletionKey(language: SupportedLanguage, wordId: string): string {
+  return `${DELETION_PREFIX}${language}:${wordId}`;
+}
+
+/**
+ * Delete a word with its encounters and quiz results, in a transaction on
+ * the words, encounters and quizResults stores
+ */
+async function deleteWordRows(
+  transaction: IDBTransaction,
+  language: SupportedLanguage,
+  wordId: string
+): Promise<void> {
+  const range = wordKeyRange(language, wordId);
+  const encounters = transaction.objectStore(STORES.encounters);
+  const quizResults = transaction.objectStore(STORES.quizResults);
+
+  const [encounterKeys, resultKeys] = await Promise.all([
+    promisifyRequest(encounters.index("language_wordId").getAllKeys(range)),
+    promisifyRequest(quizResults.index("language_wordId").getAllKeys(range)),
+  ]);
+
+  transaction.objectStore(STORES.words).delete([language, wordId]);
+  encounterKeys.forEach((key) => encounters.delete(key));
+  resultKeys.forEach((key) => quizResults.delete(key));
+}
+
+function lastReviewDate(word: WordData): string {
+  const history = word.reviewHistory || [];
+  return history.length > 0 ? history[history.length - 1].date : "";
+}
+
+/**
+ * Merge an imported copy of a word into the stored one. Counts take the
+ * larger value rather than the sum, so re-importing a backup (or importing
+ * one taken from this same data) never double-counts encounters.
+ */
+function mergeWordData(existing: WordData, imported: WordData): WordData {
+  const reviews = new Map(
+    [...(existing.reviewHistory || []), ...(imported.reviewHistory || [])].map(
+      (review) => [`${review.date}|${review.grade}`, review]
+    )
+  );
+  const reviewHistory = [...reviews.values()].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+
+  // Scheduling follows whichever copy was reviewed last
+  const scheduling =
+    lastReviewDate(imported) > lastReviewDate(existing) ? imported : existing;
+
+  return {
+    ...existing,
+    timesEncountered: Math.max(
+      existing.timesEncountered,
+      imported.timesEncountered
+    ),
+    firstSeenDate:
+      imported.firstSeenDate < existing.firstSeenDate
+        ? imported.firstSeenDate
+        : existing.firstSeenDate,
+    lastSeenDate:
+      imported.lastSeenDate > existing.lastSeenDate
+        ? imported.lastSeenDate
+        : existing.lastSeenDate,
+    difficulty: existing.difficulty ?? imported.difficulty,
+    grammar: existing.grammar ?? imported.grammar,
+    forms: (imported.forms || []).reduce(
+      (forms, form) => addForm(forms, form, existing.source),
+      existing.forms
+    ),
+    easeFactor: scheduling.easeFactor,
+    interval: scheduling.interval,
+    repetitions: scheduling.repetitions,
+    dueDate: scheduling.dueDate,
+    reviewHistory: reviewHistory.length > 0 ? reviewHistory : undefined,
+  };
+}
+
+function encounterKey(encounter: EncounterRecord): string {
+  return `${encounter.date}|${encounter.url ?? ""}|${encounter.sentence ?? ""}`;
+}
+
+/**
+ * Walk an index cursor and collect up to `limit` records, optionally
+ * skipping those that don't pass `include`
+ */
+function collectFromIndex<T>(
+  index: IDBIndex,
+  range: IDBKeyRange,
+  direction: IDBCursorDirection,
+  limit?: number,
+  include?: (value: T) => boolean
+): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const results: T[] = [];
+    const request = index.openCursor(range, direction);
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || (limit !== undefined && results.length >= limit)) {
+        resolve(results);
+        return;
+      }
+      if (!include || include(cursor.value)) {
+        results.push(cursor.value);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Vocabulary Repository - Words, encounters, quiz results and stats in
+ * IndexedDB. Every update runs in a single transaction so concurrent
+ * encounters from several tabs can't overwrite each other.
+ */
+class VocabularyRepository {
+  /**
+   * Get all words for a language, keyed by word ID
+   */
+  async getWords(
+    language: SupportedLanguage
+  ): Promise<Record<string, WordData>> {
+    if (!isExtensionContext()) {
+      return callBackground<Record<string, WordData>>(
+        "vocabulary.getWords",
+        language
+      );
+    }
+
+    const db = await openDatabase();
+    const store = db
+      .transaction(STORES.words, "readonly")
+      .objectStore(STORES.words);
+    const records: WordRecord[] = await promisifyRequest(
+      store.index("language").getAll(IDBKeyRange.only(language))
+    );
+
+    return Object.fromEntries(toEntries(records));
+  }
+
+  /**
+   * Get a single word, or null if it was never encountered
+   */
+  async getWord(
+    language: SupportedLanguage,
+    wordId: string
+  ): Promise<WordData | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordData | null>(
+        "vocabulary.getWord",
+        language,
+        wordId
+      );
+    }
+
+    const db = await openDatabase();
+    const store = db
+      .transaction(STORES.words, "readonly")
+      .objectStore(STORES.words);
+    const record: WordRecord | undefined = await promisifyRequest(
+      store.get([language, wordId])
+    );
+
+    return record ? toWordData(record) : null;
+  }
+
+  /**
+   * Write a word as-is
+   */
+  async putWord(
+    language: SupportedLanguage,
+    wordId: string,
+    word: WordData
+  ): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("vocabulary.putWord", language, wordId, word);
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.words, "readwrite");
+    transaction
+      .objectStore(STORES.words)
+      .put(toWordRecord(language, wordId, word));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Apply changes to a stored word in one transaction. Returns the updated
+   * word, or null if the word is unknown.
+   */
+  async patchWord(
+    language: SupportedLanguage,
+    wordId: string,
+    changes: Partial<WordData>
+  ): Promise<WordData | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordData | null>(
+        "vocabulary.patchWord",
+        language,
+        wordId,
+        changes
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.words, "readwrite");
+    const words = transaction.objectStore(STORES.words);
+    const existing: WordRecord | undefined = await promisifyRequest(
+      words.get([language, wordId])
+    );
+
+    if (!existing) {
+      return null;
+    }
+
+    const updated: WordData = { ...toWordData(existing), ...changes };
+    words.put(toWordRecord(language, wordId, updated));
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * The learner's corrected translations for a language
+   */
+  async getGlossary(language: SupportedLanguage): Promise<GlossaryEntry[]> {
+    if (!isExtensionContext()) {
+      return callBackground<GlossaryEntry[]>(
+        "vocabulary.getGlossary",
+        language
+      );
+    }
+
+    const db = await openDatabase();
+    return promisifyRequest(
+      db
+        .transaction(STORES.glossary, "readonly")
+        .objectStore(STORES.glossary)
+        .index("language")
+        .getAll(IDBKeyRange.only(language))
+    );
+  }
+
+  /**
+   * Save a corrected translation of one sense (`wordId`, by default the
+   * word's first sense) to the glossary and apply it to the stored word in
+   * one transaction. Returns the updated word, or null if the word hasn't
+   * been encountered yet (the glossary entry is saved either way).
+   */
+  async setGlossaryEntry(
+    language: SupportedLanguage,
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage,
+    wordId: string = getBaseWordId(source)
+  ): Promise<WordData | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordData | null>(
+        "vocabulary.setGlossaryEntry",
+        language,
+        source,
+        target,
+        sourceLanguage,
+        wordId
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.glossary],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const glossary = transaction.objectStore(STORES.glossary);
+    const now = new Date().toISOString();
+
+    const [existing, previous] = await Promise.all([
+      promisifyRequest<WordRecord | undefined>(words.get([language, wordId])),
+      promisifyRequest<GlossaryEntry | undefined>(
+        glossary.get([language, wordId])
+      ),
+    ]);
+
+    // Remember the model's translation, not an earlier correction, so the
+    // sense is recognized when the model gives it again
+    const replaced = previous ? previous.replaced : existing?.target;
+    const entry: GlossaryEntry = {
+      language,
+      source: wordId,
+      target,
+      ...(replaced && replaced !== target ? { replaced } : {}),
+      sourceLanguage,
+      updatedAt: now,
+    };
+    glossary.put(entry);
+
+    let updated: WordData | null = null;
+    if (existing) {
+      updated = { ...toWordData(existing), target, updatedAt: now };
+      // Grammar given for the old translation doesn't fit the new one
+      if (target !== existing.target) {
+        delete updated.grammar;
+      }
+      words.put(toWordRecord(language, wordId, updated));
+    }
+
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * Remove the glossary entry of a sense. The stored word keeps its current
+   * target.
+   */
+  async removeGlossaryEntry(
+    language: SupportedLanguage,
+    wordId: string
+  ): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>(
+        "vocabulary.removeGlossaryEntry",
+        language,
+        wordId
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.glossary, "readwrite");
+    transaction.objectStore(STORES.glossary).delete([language, wordId]);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Mark a word known, mastered or ignored, or clear its state with null.
+   * Returns the updated word, or null if the word is unknown.
+   */
+  async setWordState(
+    language: SupportedLanguage,
+    wordId: string,
+    state: WordState | null
+  ): Promise<WordData | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordData | null>(
+        "vocabulary.setWordState",
+        language,
+        wordId,
+        state
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.words, "readwrite");
+    const words = transaction.objectStore(STORES.words);
+    const existing: WordRecord | undefined = await promisifyRequest(
+      words.get([language, wordId])
+    );
+
+    if (!existing) {
+      return null;
+    }
+
+    const { state: _previous, ...rest } = toWordData(existing);
+    const updated: WordData = {
+      ...rest,
+      ...(state ? { state } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    words.put(toWordRecord(language, wordId, updated));
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * Delete a word with its encounters and quiz results, and remember the
+   * deletion for sync
+   */
+  async deleteWord(language: SupportedLanguage, wordId: string): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("vocabulary.deleteWord", language, wordId);
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [
+        STORES.words,
+        STORES.encounters,
+        STORES.quizResults,
+        STORES.stats,
+        STORES.meta,
+      ],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const stats = transaction.objectStore(STORES.stats);
+
+    const [existing, currentStats] = await Promise.all([
+      promisifyRequest<WordRecord | undefined>(words.get([language, wordId])),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+    ]);
+
+    if (!existing) {
+      return;
+    }
+
+    await deleteWordRows(transaction, language, wordId);
+
+    const deletion: WordDeletion = {
+      language,
+      wordId,
+      deletedAt: new Date().toISOString(),
+    };
+    transaction
+      .objectStore(STORES.meta)
+      .put({ key: deletionKey(language, wordId), ...deletion });
+
+    if (currentStats) {
+      stats.put({
+        ...currentStats,
+        totalWordsEncountered: Math.max(
+          0,
+          currentStats.totalWordsEncountered - 1
+        ),
+      });
+    }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Record a word translated on a page: bump (or create) the sense of the
+   * word with this translation, log the encounter and update the language
+   * stats in one transaction. `source` and `target` are dictionary forms,
+   * so every inflection of a word adds up under its lemma; the form seen on
+   * the page comes in `context.form` and is kept on the word. Returns the
+   * word ID (sense) it was recorded under.
+   */
+  async recordEncounter(
+    language: SupportedLanguage,
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage,
+    context: EncounterContext = {}
+  ): Promise<string> {
+    if (!isExtensionContext()) {
+      return callBackground<string>(
+        "vocabulary.recordEncounter",
+        language,
+        source,
+        target,
+        sourceLanguage,
+        context
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.encounters, STORES.stats, STORES.glossary],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const stats = transaction.objectStore(STORES.stats);
+    const now = new Date().toISOString();
+    const baseId = getBaseWordId(source);
+
+    const [family, currentStats, corrections] = await Promise.all([
+      promisifyRequest<WordRecord[]>(
+        words.getAll(senseKeyRange(language, baseId))
+      ),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+      promisifyRequest<GlossaryEntry[]>(
+        transaction
+          .objectStore(STORES.glossary)
+          .getAll(senseKeyRange(language, baseId))
+      ),
+    ]);
+    const senses = family.filter((record) => isSenseOf(record.wordId, baseId));
+
+    // The model's translation of a corrected sense is filed under that sense
+    const correction = findCorrection(
+      Object.fromEntries(corrections.map((entry) => [entry.source, entry])),
+      baseId,
+      target
+    );
+    let { wordId, existing } = resolveSense(
+      senses,
+      baseId,
+      correction?.target ?? target
+    );
+    if (correction && wordId !== correction.source) {
+      // The correction was overwritten (e.g. through sync): restore it
+      wordId = correction.source;
+      existing = senses.find((sense) => sense.wordId === wordId);
+    }
+
+    const encounters = transaction.objectStore(STORES.encounters);
+    const previousEncounters = await promisifyRequest<EncounterRecord[]>(
+      encounters
+        .index("language_wordId")
+        .getAll(IDBKeyRange.only([language, wordId]))
+    );
+
+    if (existing) {
+      words.put({
+        ...existing,
+        ...(correction && correction.target !== existing.target
+          ? { target: correction.target, updatedAt: now }
+          : {}),
+        forms: addForm(existing.forms, context.form, existing.source),
+        // The model's grammar describes its own translation, not a correction
+        grammar: existing.grammar ?? (correction ? undefined : context.grammar),
+        timesEncountered: existing.timesEncountered + 1,
+        lastSeenDate: now,
+      });
+    } else {
+      words.put(
+        toWordRecord(language, wordId, {
+          source,
+          target: correction?.target ?? target,
+          sourceLanguage,
+          ...(isPhrase(source) ? { isPhrase: true } : {}),
+          forms: addForm(undefined, context.form, source),
+          grammar: correction ? undefined : context.grammar,
+          timesEncountered: 1,
+          firstSeenDate: now,
+          lastSeenDate: now,
+          difficulty: context.difficulty,
+          updatedAt: now,
+        })
+      );
+    }
+
+    const baseStats = currentStats || { ...emptyStats(), language };
+    stats.put({
+      ...baseStats,
+      // Only new words count towards the total
+      totalWordsEncountered:
+        baseStats.totalWordsEncountered + (existing ? 0 : 1),
+      lastActiveDate: now,
+    });
+
+    const encounter: EncounterRecord = {
+      language,
+      wordId,
+      sentence: context.sentence?.slice(0, MAX_SENTENCE_LENGTH),
+      url: context.url,
+      pageTitle: context.pageTitle,
+      form: context.form,
+      targetForm: context.targetForm,
+      date: now,
+    };
+
+    // Seeing the same sentence again (e.g. a revisit) moves it to the end
+    // instead of filling the history with copies
+    const kept = previousEncounters.filter((previous) => {
+      const isRepeat =
+        previous.sentence === encounter.sentence &&
+        previous.url === encounter.url;
+      if (isRepeat && previous.id !== undefined) {
+        encounters.delete(previous.id);
+      }
+      return !isRepeat;
+    });
+
+    // Oldest first, so drop from the front to stay within the cap
+    const overflow = kept.length + 1 - MAX_ENCOUNTERS_PER_WORD;
+    for (const old of kept.slice(0, Math.max(0, overflow))) {
+      if (old.id !== undefined) {
+        encounters.delete(old.id);
+      }
+    }
+
+    encounters.add(encounter);
+
+    await transactionDone(transaction);
+    return wordId;
+  }
+
+  /**
+   * Add a word the learner saved without meeting it on a page (e.g. a
+   * synonym from the hover card). It is filed under the sense with the same
+   * translation like an encounter, but no encounter is counted or logged
+   * and a sense already stored is left as it is. Returns the word ID
+   * (sense).
+   */
+  async addWord(
+    language: SupportedLanguage,
+    source: string,
+    target: string,
+    sourceLanguage: SupportedLanguage
+  ): Promise<string> {
+    if (!isExtensionContext()) {
+      return callBackground<string>(
+        "vocabulary.addWord",
+        language,
+        source,
+        target,
+        sourceLanguage
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.stats],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const stats = transaction.objectStore(STORES.stats);
+    const baseId = getBaseWordId(source);
+
+    const [family, currentStats] = await Promise.all([
+      promisifyRequest<WordRecord[]>(
+        words.getAll(senseKeyRange(language, baseId))
+      ),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+    ]);
+    const senses = family.filter((record) => isSenseOf(record.wordId, baseId));
+    const { wordId, existing } = resolveSense(senses, baseId, target);
+
+    if (!existing) {
+      const now = new Date().toISOString();
+      words.put(
+        toWordRecord(language, wordId, {
+          source,
+          target,
+          sourceLanguage,
+          ...(isPhrase(source) ? { isPhrase: true } : {}),
+          timesEncountered: 0,
+          firstSeenDate: now,
+          lastSeenDate: now,
+          updatedAt: now,
+        })
+      );
+
+      // A new word in the vocabulary, as with an import
+      const baseStats = currentStats || { ...emptyStats(), language };
+      stats.put({
+        ...baseStats,
+        totalWordsEncountered: baseStats.totalWordsEncountered + 1,
+      });
+    }
+
+    await transactionDone(transaction);
+    return wordId;
+  }
+
+  /**
+   * Apply a quiz answer to a word, reschedule it and log the result.
+   * Returns the updated word, or null if the word is unknown.
+   */
+  async recordReview(
+    language: SupportedLanguage,
+    wordId: string,
+    grade: ReviewGrade
+  ): Promise<WordData | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordData | null>(
+        "vocabulary.recordReview",
+        language,
+        wordId,
+        grade
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.quizResults],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const existing: WordRecord | undefined = await promisifyRequest(
+      words.get([language, wordId])
+    );
+
+    if (!existing) {
+      return null;
+    }
+
+    const now = new Date();
+    const scheduled = {
+      ...scheduleReview(toWordData(existing), grade, now),
+      updatedAt: now.toISOString(),
+    };
+    words.put(toWordRecord(language, wordId, scheduled));
+
+    const result: QuizResultRecord = {
+      language,
+      wordId,
+      grade,
+      interval: scheduled.interval ?? 0,
+      date: now.toISOString(),
+    };
+    transaction.objectStore(STORES.quizResults).add(result);
+
+    await transactionDone(transaction);
+    return scheduled;
+  }
+
+  /**
+   * Words deleted on this device that sync hasn't finished with. Only
+   * callable in the extension context.
+   */
+  async getDeletions(): Promise<WordDeletion[]> {
+    const db = await openDatabase();
+    const records: (WordDeletion & { key: string })[] = await promisifyRequest(
+      db
+        .transaction(STORES.meta, "readonly")
+        .objectStore(STORES.meta)
+        .getAll(IDBKeyRange.bound(DELETION_PREFIX, `${DELETION_PREFIX}\uffff`))
+    );
+    return records.map(({ language, wordId, deletedAt }) => ({
+      language,
+      wordId,
+      deletedAt,
+    }));
+  }
+
+  /**
+   * Forget deletions every device has seen. Only callable in the extension
+   * context.
+   */
+  async removeDeletions(deletions: WordDeletion[]): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.meta, "readwrite");
+    const meta = transaction.objectStore(STORES.meta);
+    deletions.forEach(({ language, wordId }) =>
+      meta.delete(deletionKey(language, wordId))
+    );
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Delete words of a language deleted on another device, unless they were
+   * seen or edited here after the deletion. Returns how many were deleted.
+   * Only callable in the extension context.
+   */
+  async applyDeletions(
+    language: SupportedLanguage,
+    deletions: { wordId: string; deletedAt: string }[]
+  ): Promise<number> {
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.encounters, STORES.quizResults, STORES.stats],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const stats = transaction.objectStore(STORES.stats);
+
+    const [existingRecords, currentStats] = await Promise.all([
+      Promise.all(
+        deletions.map(({ wordId }) =>
+          promisifyRequest<WordRecord | undefined>(
+            words.get([language, wordId])
+          )
+        )
+      ),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+    ]);
+
+    let deleted = 0;
+    for (const [i, { wordId, deletedAt }] of deletions.entries()) {
+      const existing = existingRecords[i];
+      if (!existing || lastActivity(toWordData(existing)) > deletedAt) {
+        continue;
+      }
+      await deleteWordRows(transaction, language, wordId);
+      deleted++;
+    }
+
+    if (deleted > 0 && currentStats) {
+      stats.put({
+        ...currentStats,
+        totalWordsEncountered: Math.max(
+          0,
+          currentStats.totalWordsEncountered - deleted
+        ),
+      });
+    }
+
+    await transactionDone(transaction);
+    return deleted;
+  }
+
+  /**
+   * Read-modify-write several words of a language in one transaction.
+   * `update` gets the stored word (or null) and returns the word to store,
+   * or null to leave it alone. New words count towards the language stats.
+   * Only callable in the extension context (`update` can't be proxied).
+   */
+  async updateWords(
+    language: SupportedLanguage,
+    wordIds: string[],
+    update: (wordId: string, existing: WordData | null) => WordData | null
+  ): Promise<number> {
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.stats],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const stats = transaction.objectStore(STORES.stats);
+
+    const [existingRecords, currentStats] = await Promise.all([
+      Promise.all(
+        wordIds.map((wordId) =>
+          promisifyRequest<WordRecord | undefined>(
+            words.get([language, wordId])
+          )
+        )
+      ),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+    ]);
+
+    let changed = 0;
+    let added = 0;
+
+    wordIds.forEach((wordId, i) => {
+      const existing = existingRecords[i];
+      const updated = update(wordId, existing ? toWordData(existing) : null);
+      if (!updated) return;
+
+      words.put(toWordRecord(language, wordId, updated));
+      changed++;
+      if (!existing) added++;
+    });
+
+    if (added > 0) {
+      const baseStats = currentStats || { ...emptyStats(), language };
+      stats.put({
+        ...baseStats,
+        totalWordsEncountered: baseStats.totalWordsEncountered + added,
+      });
+    }
+
+    await transactionDone(transaction);
+    return changed;
+  }
+
+  /**
+   * Words due for review: overdue words first (most overdue first), then
+   * never-reviewed words (most encountered first). Words with a state
+   * (known, mastered, ignored) are skipped.
+   */
+  async getDueWords(
+    language: SupportedLanguage,
+    limit?: number
+  ): Promise<[string, WordData][]> {
+    if (!isExtensionContext()) {
+      return callBackground<[string, WordData][]>(
+        "vocabulary.getDueWords",
+        language,
+        limit
+      );
+    }
+
+    const db = await openDatabase();
+    const index = db
+      .transaction(STORES.words, "readonly")
+      .objectStore(STORES.words)
+      .index("language_dueAt");
+
+    const overdue = await collectFromIndex<WordRecord>(
+      index,
+      IDBKeyRange.bound([language, 1], [language, Date.now()]),
+      "next",
+      limit,
+      isInRotation
+    );
+
+    if (limit !== undefined && overdue.length >= limit) {
+      return toEntries(overdue);
+    }
+
+    const unreviewed = (
+      await promisifyRequest<WordRecord[]>(
+        index.getAll(IDBKeyRange.only([language, 0]))
+      )
+    ).filter(isInRotation);
+    unreviewed.sort((a, b) => b.timesEncountered - a.timesEncountered);
+
+    const due = [...overdue, ...unreviewed];
+    return toEntries(limit !== undefined ? due.slice(0, limit) : due);
+  }
+
+  /**
+   * Source words that should be skipped, avoided or preferred when picking
+   * words to translate. Only words learned from `sourceLanguage` apply.
+   */
+  async getSelectionHints(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<WordSelectionHints> {
+    if (!isExtensionContext()) {
+      return callBackground<WordSelectionHints>(
+        "vocabulary.getSelectionHints",
+        language,
+        sourceLanguage
+      );
+    }
+
+    const db = await openDatabase();
+    const records: WordRecord[] = await promisifyRequest(
+      db
+        .transaction(STORES.words, "readonly")
+        .objectStore(STORES.words)
+        .index("language")
+        .getAll(IDBKeyRange.only(language))
+    );
+
+    const hints: WordSelectionHints = { ignored: [], known: [], due: [] };
+    const now = Date.now();
+
+    for (const record of records) {
+      if (record.sourceLanguage !== sourceLanguage) {
+        continue;
+      }
+      const source = record.source.toLowerCase();
+
+      if (record.state === "ignored") {
+        hints.ignored.push(source);
+      } else if (record.state) {
+        hints.known.push(source);
+      } else if (record.dueAt > 0 && record.dueAt <= now) {
+        hints.due.push(source);
+      }
+    }
+
+    return hints;
+  }
+
+  /**
+   * Words seen most often, most encountered first
+   */
+  async getMostEncounteredWords(
+    language: SupportedLanguage,
+    limit?: number
+  ): Promise<[string, WordData][]> {
+    if (!isExtensionContext()) {
+      return callBackground<[string, WordData][]>(
+        "vocabulary.getMostEncounteredWords",
+        language,
+        limit
+      );
+    }
+
+    const db = await openDatabase();
+    const index = db
+      .transaction(STORES.words, "readonly")
+      .objectStore(STORES.words)
+      .index("language_timesEncountered");
+
+    const records = await collectFromIndex<WordRecord>(
+      index,
+      IDBKeyRange.bound([language, 0], [language, Infinity]),
+      "prev",
+      limit
+    );
+    return toEntries(records);
+  }
+
+  /**
+   * Words by first-seen date, newest first
+   */
+  async getRecentWords(
+    language: SupportedLanguage,
+    limit?: number
+  ): Promise<[string, WordData][]> {
+    if (!isExtensionContext()) {
+      return callBackground<[string, WordData][]>(
+        "vocabulary.getRecentWords",
+        language,
+        limit
+      );
+    }
+
+    const db = await openDatabase();
+    const index = db
+      .transaction(STORES.words, "readonly")
+      .objectStore(STORES.words)
+      .index("language_firstSeenDate");
+
+    // ISO dates sort lexically, so the string range covers every date
+    const records = await collectFromIndex<WordRecord>(
+      index,
+      IDBKeyRange.bound([language, ""], [language, "\uffff"]),
+      "prev",
+      limit
+    );
+    return toEntries(records);
+  }
+
+  /**
+   * Every recorded encounter of a word (or of all words in a language if
+   * `wordId` is omitted), oldest first
+   */
+  async getEncounters(
+    language: SupportedLanguage,
+    wordId?: string
+  ): Promise<EncounterRecord[]> {
+    if (!isExtensionContext()) {
+      return callBackground<EncounterRecord[]>(
+        "vocabulary.getEncounters",
+        language,
+        wordId
+      );
+    }
+
+    const db = await openDatabase();
+    const index = db
+      .transaction(STORES.encounters, "readonly")
+      .objectStore(STORES.encounters)
+      .index("language_wordId");
+    return promisifyRequest(index.getAll(wordKeyRange(language, wordId)));
+  }
+
+  /**
+   * Every quiz answer for a word (or for all words in a language if
+   * `wordId` is omitted)
+   */
+  async getQuizResults(
+    language: SupportedLanguage,
+    wordId?: string
+  ): Promise<QuizResultRecord[]> {
+    if (!isExtensionContext()) {
+      return callBackground<QuizResultRecord[]>(
+        "vocabulary.getQuizResults",
+        language,
+        wordId
+      );
+    }
+
+    const db = await openDatabase();
+    const index = db
+      .transaction(STORES.quizResults, "readonly")
+      .objectStore(STORES.quizResults)
+      .index("language_wordId");
+    return promisifyRequest(index.getAll(wordKeyRange(language, wordId)));
+  }
+
+  /**
+   * Get the stats for a language
+   */
+  async getStats(language: SupportedLanguage): Promise<LanguageStats> {
+    if (!isExtensionContext()) {
+      return callBackground<LanguageStats>("vocabulary.getStats", language);
+    }
+
+    const db = await openDatabase();
+    const store = db
+      .transaction(STORES.stats, "readonly")
+      .objectStore(STORES.stats);
+    const record: StatsRecord | undefined = await promisifyRequest(
+      store.get(language)
+    );
+
+    if (!record) {
+      return emptyStats();
+    }
+    const { language: _language, ...stats } = record;
+    return stats;
+  }
+
+  /**
+   * Merge updates into the stats for a language
+   */
+  async updateStats(
+    language: SupportedLanguage,
+    updates: Partial<LanguageStats>
+  ): Promise<LanguageStats> {
+    if (!isExtensionContext()) {
+      return callBackground<LanguageStats>(
+        "vocabulary.updateStats",
+        language,
+        updates
+      );
+    }
+
+    return this.modifyStats(language, (stats) => ({ ...stats, ...updates }));
+  }
+
+  /**
+   * Increment a numeric stat for a language
+   */
+  async incrementStat(
+    language: SupportedLanguage,
+    field: keyof LanguageStats
+  ): Promise<LanguageStats> {
+    if (!isExtensionContext()) {
+      return callBackground<LanguageStats>(
+        "vocabulary.incrementStat",
+        language,
+        field
+      );
+    }
+
+    return this.modifyStats(language, (stats) => {
+      const value = stats[field];
+      return typeof value === "number"
+        ? { ...stats, [field]: value + 1 }
+        : stats;
+    });
+  }
+
+  /**
+   * Read-modify-write the stats for a language in one transaction (callers
+   * proxy to the background first; `modify` can't cross the message boundary)
+   */
+  private async modifyStats(
+    language: SupportedLanguage,
+    modify: (stats: LanguageStats) => LanguageStats
+  ): Promise<LanguageStats> {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.stats, "readwrite");
+    const store = transaction.objectStore(STORES.stats);
+    const record: StatsRecord | undefined = await promisifyRequest(
+      store.get(language)
+    );
+
+    const { language: _language, ...current } = record || {
+      ...emptyStats(),
+      language,
+    };
+    const updated: LanguageStats = {
+      ...modify(current),
+      lastActiveDate: new Date().toISOString(),
+    };
+    store.put({ ...updated, language });
+
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * Merge words, encounters and quiz results from a backup into a language
+   * in one transaction. Records already present are skipped, so importing
+   * the same backup twice changes nothing.
+   */
+  async mergeLanguage(
+    language: SupportedLanguage,
+    data: {
+      stats?: LanguageStats;
+      words: Record<string, WordData>;
+      encounters?: EncounterRecord[];
+      quizResults?: QuizResultRecord[];
+      glossary?: GlossaryEntry[];
+    }
+  ): Promise<{ added: number; updated: number }> {
+    if (!isExtensionContext()) {
+      return callBackground<{ added: number; updated: number }>(
+        "vocabulary.mergeLanguage",
+        language,
+        data
+      );
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [
+        STORES.words,
+        STORES.encounters,
+        STORES.quizResults,
+        STORES.stats,
+        STORES.glossary,
+      ],
+      "readwrite"
+    );
+    const words = transaction.objectStore(STORES.words);
+    const encounters = transaction.objectStore(STORES.encounters);
+    const quizResults = transaction.objectStore(STORES.quizResults);
+    const stats = transaction.objectStore(STORES.stats);
+    const glossary = transaction.objectStore(STORES.glossary);
+
+    const [
+      existingWords,
+      existingEncounters,
+      existingResults,
+      currentStats,
+      existingGlossary,
+    ] = await Promise.all([
+      promisifyRequest<WordRecord[]>(
+        words.index("language").getAll(IDBKeyRange.only(language))
+      ),
+      promisifyRequest<EncounterRecord[]>(
+        encounters.index("language_wordId").getAll(wordKeyRange(language))
+      ),
+      promisifyRequest<QuizResultRecord[]>(
+        quizResults.index("language_wordId").getAll(wordKeyRange(language))
+      ),
+      promisifyRequest<StatsRecord | undefined>(stats.get(language)),
+      promisifyRequest<GlossaryEntry[]>(
+        glossary.index("language").getAll(IDBKeyRange.only(language))
+      ),
+    ]);
+
+    // Glossary: the newer correction of a sense wins
+    const glossaryBySource = new Map(
+      existingGlossary.map((entry) => [entry.source, entry])
+    );
+    for (const entry of data.glossary || []) {
+      const current = glossaryBySource.get(entry.source);
+      if (!current || entry.updatedAt > current.updatedAt) {
+        glossary.put({ ...entry, language });
+        glossaryBySource.set(entry.source, entry);
+      }
+    }
+
+    // Words
+    const wordsById = new Map(
+      existingWords.map((record) => [record.wordId, record])
+    );
+    let added = 0;
+    let updated = 0;
+
+    for (const [wordId, imported] of Object.entries(data.words)) {
+      const existing = wordsById.get(wordId);
+      const merged = existing
+        ? mergeWordData(toWordData(existing), imported)
+        : imported;
+      const correction = glossaryBySource.get(wordId);
+      words.put(
+        toWordRecord(
+          language,
+          wordId,
+          correction ? { ...merged, target: correction.target } : merged
+        )
+      );
+      if (existing) {
+        updated++;
+      } else {
+        added++;
+      }
+    }
+
+    // Encounters: add unseen ones, then trim each word back to the cap
+    const encountersByWord = new Map<string, EncounterRecord[]>();
+    for (const encounter of existingEncounters) {
+      const list = encountersByWord.get(encounter.wordId) || [];
+      list.push(encounter);
+      encountersByWord.set(encounter.wordId, list);
+    }
+
+    const importedByWord = new Map<string, EncounterRecord[]>();
+    for (const encounter of data.encounters || []) {
+      const list = importedByWord.get(encounter.wordId) || [];
+      list.push(encounter);
+      importedByWord.set(encounter.wordId, list);
+    }
+
+    for (const [wordId, importedList] of importedByWord) {
+      const existingList = encountersByWord.get(wordId) || [];
+      const seen = new Set(existingList.map(encounterKey));
+      const fresh = importedList.filter(
+        (encounter) => !seen.has(encounterKey(encounter))
+      );
+
+      const combined = [...existingList, ...fresh].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      );
+      const kept = new Set(combined.slice(-MAX_ENCOUNTERS_PER_WORD));
+
+      for (const encounter of existingList) {
+        if (!kept.has(encounter) && encounter.id !== undefined) {
+          encounters.delete(encounter.id);
+        }
+      }
+      for (const encounter of fresh) {
+        if (kept.has(encounter)) {
+          const { id, ...record } = encounter;
+          encounters.add({ ...record, language, wordId });
+        }
+      }
+    }
+
+    // Quiz results
+    const resultKey = (result: QuizResultRecord) =>
+      `${result.wordId}|${result.date}|${result.grade}`;
+    const seenResults = new Set(existingResults.map(resultKey));
+    for (const result of data.quizResults || []) {
+      if (!seenResults.has(resultKey(result))) {
+        const { id, ...record } = result;
+        quizResults.add({ ...record, language });
+        seenResults.add(resultKey(result));
+      }
+    }
+
+    // Stats: new words add to the total, page counts aren't additive
+    const baseStats = currentStats || { ...emptyStats(), language };
+    stats.put({
+      ...baseStats,
+      totalWordsEncountered: baseStats.totalWordsEncountered + added,
+      totalPagesTranslated: Math.max(
+        baseStats.totalPagesTranslated,
+        data.stats?.totalPagesTranslated ?? 0
+      ),
+    });
+
+    await transactionDone(transaction);
+    console.log(
+      `[VocabularyRepository] Merged ${language}: ${added} added, ${updated} updated`
+    );
+    return { added, updated };
+  }
+
+  /**
+   * Import vocabulary from the old chrome.storage.local layout. Runs at most
+   * once: the flag is checked and set in the same transaction, so contexts
+   * racing to migrate can't import twice. Returns false if already imported.
+   */
+  async importLanguages(
+    languages: Partial<Record<SupportedLanguage, LanguageData>>
+  ): Promise<boolean> {
+    if (!isExtensionContext()) {
+      return callBackground<boolean>("vocabulary.importLanguages", languages);
+    }
+
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [STORES.words, STORES.quizResults, STORES.stats, STORES.meta],
+      "readwrite"
+    );
+    const meta = transaction.objectStore(STORES.meta);
+
+    const flag = await promisifyRequest(meta.get(IMPORT_FLAG));
+    if (flag) {
+      return false;
+    }
+
+    const words = transaction.objectStore(STORES.words);
+    const quizResults = transaction.objectStore(STORES.quizResults);
+    const stats = transaction.objectStore(STORES.stats);
+    let wordCount = 0;
+
+    for (const [language, data] of Object.entries(languages) as [
+      SupportedLanguage,
+      LanguageData,
+    ][]) {
+      if (data.stats) {
+        stats.put({ ...data.stats, language });
+      }
+
+      for (const [wordId, word] of Object.entries(data.words || {})) {
+        words.put(toWordRecord(language, wordId, word));
+        wordCount++;
+
+        // Review history becomes quiz results
+        for (const review of word.reviewHistory || []) {
+          const result: QuizResultRecord = {
+            language,
+            wordId,
+            grade: review.grade,
+            interval: review.interval,
+            date: review.date,
+          };
+          quizResults.add(result);
+        }
+      }
+    }
+
+    meta.put({ key: IMPORT_FLAG, date: new Date().toISOString() });
+    await transactionDone(transaction);
+
+    console.log(`[VocabularyRepository] Imported ${wordCount} words`);
+    return true;
+  }
+}
+
+export const vocabularyRepository = new VocabularyRepository();
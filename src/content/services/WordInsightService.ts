@@ -0,0 +1,316 @@
+import {
+  PARTS_OF_SPEECH,
+  getLanguageName,
+  type PartOfSpeech,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  STORES,
+} from "../utils/database";
+import { isExtensionContext, callBackground } from "../utils/backgroundRpc";
+
+// Most synonyms or antonyms kept for a word
+const MAX_RELATED_WORDS = 3;
+
+/**
+ * A synonym or antonym, with its translation so it can be saved
+ */
+export interface RelatedWord {
+  word: string;
+  translation: string; // In the learner's source language
+}
+
+/**
+ * Monolingual definition and related words of a target-language word
+ */
+export interface WordInsight {
+  language: SupportedLanguage;
+  sourceLanguage: SupportedLanguage;
+  sourceWord: string; // Dictionary form it translates, for its meaning
+  word: string;
+  definition: string; // In the target language
+  partOfSpeech: PartOfSpeech;
+  synonyms: RelatedWord[];
+  antonyms: RelatedWord[];
+  createdAt: string;
+}
+
+/**
+ * Response from Prompt API with a word's details
+ */
+interface WordInsightResponse {
+  definition: string;
+  partOfSpeech: string;
+  synonyms: RelatedWord[];
+  antonyms: RelatedWord[];
+}
+
+/**
+ * Word Insight Service - Generates a short definition, part of speech,
+ * synonyms and antonyms of a word with the Prompt API and keeps them in
+ * IndexedDB, so each meaning of a word is only generated once per language
+ * pair
+ */
+class WordInsightService {
+  private session: any = null;
+  private isInitialized = false;
+  private initPromise: Promise<void> | null = null;
+
+  /**
+   * Initialize the Prompt API session. Concurrent calls share one session;
+   * a failed attempt can be retried.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized && this.session) {
+      return;
+    }
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+
+    this.initPromise = (async () => {
+      try {
+        const availability = await (self as any).LanguageModel.availability();
+
+        if (availability === "unavailable") {
+          throw new Error("Prompt API is not available");
+        }
+
+        const params = await (self as any).LanguageModel.params();
+
+        this.session = await (self as any).LanguageModel.create({
+          temperature: params.defaultTemperature,
+          topK: params.defaultTopK,
+        });
+
+        this.isInitialized = true;
+        console.log("[WordInsightService] Initialized successfully");
+      } catch (error) {
+        console.error("[WordInsightService] Failed to initialize:", error);
+        throw error;
+      } finally {
+        this.initPromise = null;
+      }
+    })();
+
+    return this.initPromise;
+  }
+
+  /**
+   * Details of a word (dictionary form), from the cache or generated and
+   * cached; null when they could not be generated. The source word picks
+   * the meaning of a word with several, and each meaning is cached apart.
+   */
+  async getInsight(
+    word: string,
+    sourceWord: string,
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<WordInsight | null> {
+    const normalized = word.trim().toLowerCase();
+    const normalizedSource = sourceWord.trim().toLowerCase();
+    const cached = await this.getCached(
+      language,
+      sourceLanguage,
+      normalizedSource,
+      normalized
+    );
+    if (cached) {
+      return cached;
+    }
+
+    const insight = await this.generateInsight(
+      normalized,
+      normalizedSource,
+      language,
+      sourceLanguage
+    );
+    if (insight) {
+      await this.saveCached(insight);
+    }
+    return insight;
+  }
+
+  /**
+   * Get cached details of a word in the meaning of a source word, or null
+   * on a miss
+   */
+  async getCached(
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage,
+    sourceWord: string,
+    word: string
+  ): Promise<WordInsight | null> {
+    if (!isExtensionContext()) {
+      return callBackground<WordInsight | null>(
+        "wordInsights.get",
+        language,
+        sourceLanguage,
+        sourceWord,
+        word
+      );
+    }
+
+    try {
+      const db = await openDatabase();
+      const insight: WordInsight | undefined = await promisifyRequest(
+        db
+          .transaction(STORES.wordInsights, "readonly")
+          .objectStore(STORES.wordInsights)
+          .get([language, sourceLanguage, sourceWord, word])
+      );
+      return insight ?? null;
+    } catch (error) {
+      console.error("[WordInsightService] Error reading cache:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the details of a word
+   */
+  async saveCached(insight: WordInsight): Promise<void> {
+    if (!isExtensionContext()) {
+      return callBackground<void>("wordInsights.set", insight);
+    }
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.wordInsights, "readwrite");
+      transaction.objectStore(STORES.wordInsights).put(insight);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error("[WordInsightService] Error writing cache:", error);
+    }
+  }
+
+  /**
+   * Ask the model for the word's details
+   */
+  private async generateInsight(
+    word: string,
+    sourceWord: string,
+    language: SupportedLanguage,
+    sourceLanguage: SupportedLanguage
+  ): Promise<WordInsight | null> {
+    if (!this.isInitialized || !this.session) {
+      await this.initialize();
+    }
+
+    const languageName = getLanguageName(language);
+    const sourceLanguageName = getLanguageName(sourceLanguage);
+
+    const relatedWords = {
+      type: "array",
+      maxItems: MAX_RELATED_WORDS,
+      items: {
+        type: "object",
+        properties: {
+          word: { type: "string" },
+          translation: { type: "string" },
+        },
+        required: ["word", "translation"],
+      },
+    };
+    const schema = {
+      type: "object",
+      properties: {
+        definition: {
+          type: "string",
+          description: `Short definition in ${languageName}`,
+        },
+        partOfSpeech: { type: "string", enum: PARTS_OF_SPEECH },
+        synonyms: relatedWords,
+        antonyms: relatedWords,
+      },
+      required: ["definition", "partOfSpeech", "synonyms", "antonyms"],
+    };
+
+    const prompt = `You are a ${languageName} dictionary for learners. Describe the ${languageName} word "${word}", meaning "${sourceWord}" in ${sourceLanguageName}.
+
+Rules:
+1. Write the definition in ${languageName} only, in one sentence of at most 15 simple words, without using "${word}" itself
+2. Give its part of speech
+3. Give 2-3 common ${languageName} synonyms and up to 3 antonyms for this meaning, as dictionary forms; give no antonyms if it has none
+4. Give the ${sourceLanguageName} translation of each synonym and antonym in "translation"
+
+Return a JSON object with "definition", "partOfSpeech", "synonyms" and "antonyms".`;
+
+    try {
+      console.log(`[WordInsightService] Describing "${word}" (${language})`);
+
+      const response = await this.session.prompt(prompt, {
+        responseConstraint: schema,
+      });
+      const parsed: WordInsightResponse = JSON.parse(response);
+
+      const definition = parsed.definition?.trim();
+      if (!definition) {
+        throw new Error("No definition in response");
+      }
+
+      return {
+        language,
+        sourceLanguage,
+        sourceWord,
+        word,
+        definition,
+        partOfSpeech: PARTS_OF_SPEECH.includes(
+          parsed.partOfSpeech as PartOfSpeech
+        )
+          ? (parsed.partOfSpeech as PartOfSpeech)
+          : "other",
+        synonyms: this.cleanRelatedWords(parsed.synonyms, word),
+        antonyms: this.cleanRelatedWords(parsed.antonyms, word),
+        createdAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error(
+        `[WordInsightService] Failed to describe "${word}":`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Lowercase, deduplicate and cap related words, dropping the word itself
+   * and entries without a translation
+   */
+  private cleanRelatedWords(
+    related: RelatedWord[] | undefined,
+    word: string
+  ): RelatedWord[] {
+    const seen = new Set([word]);
+    return (related || [])
+      .map((entry) => ({
+        word: entry.word?.trim().toLowerCase() ?? "",
+        translation: entry.translation?.trim().toLowerCase() ?? "",
+      }))
+      .filter((entry) => {
+        if (!entry.word || !entry.translation || seen.has(entry.word)) {
+          return false;
+        }
+        seen.add(entry.word);
+        return true;
+      })
+      .slice(0, MAX_RELATED_WORDS);
+  }
+
+  /**
+   * Destroy the session
+   */
+  destroy(): void {
+    if (this.session) {
+      this.session.destroy();
+      this.session = null;
+      this.isInitialized = false;
+      console.log("[WordInsightService] Session destroyed");
+    }
+  }
+}
+
+export const wordInsightService = new WordInsightService();
@@ -0,0 +1,94 @@
+/**
+ * Site Prompt - Asks whether to translate a site whose policy is "ask"
+ */
+
+const PROMPT_ID = "tob-site-prompt";
+
+interface SitePromptActions {
+  onTranslate: () => void;
+  onAlways: () => void;
+  onNever: () => void;
+}
+
+/**
+ * Create a prompt button with the shared look
+ */
+function createButton(
+  label: string,
+  primary: boolean,
+  onClick: () => void
+): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.cssText = `
+    padding: 6px 12px;
+    border-radius: 6px;
+    border: 1px solid ${primary ? "#3B82F6" : "#D1D5DB"};
+    background-color: ${primary ? "#3B82F6" : "#FFFFFF"};
+    color: ${primary ? "#FFFFFF" : "#374151"};
+    font-family: system-ui, -apple-system, sans-serif;
+    font-size: 13px;
+    font-weight: 500;
+    cursor: pointer;
+  `;
+  button.addEventListener("click", onClick);
+  return button;
+}
+
+/**
+ * Remove the prompt if it is showing
+ */
+export function hideSitePrompt(): void {
+  document.getElementById(PROMPT_ID)?.remove();
+}
+
+/**
+ * Show the "translate this site?" prompt
+ */
+export function showSitePrompt(actions: SitePromptActions): void {
+  hideSitePrompt();
+
+  const prompt = document.createElement("div");
+  prompt.id = PROMPT_ID;
+  prompt.style.cssText = `
+    position: fixed;
+    bottom: 20px;
+    right: 20px;
+    display: flex;
+    flex-direction: column;
+    gap: 10px;
+    max-width: 320px;
+    background-color: #FFFFFF;
+    color: #111827;
+    padding: 14px 16px;
+    border-radius: 8px;
+    border: 1px solid #E5E7EB;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+    font-family: system-ui, -apple-system, sans-serif;
+    font-size: 14px;
+    z-index: 999999;
+  `;
+
+  const message = document.createElement("div");
+  message.textContent = `Translate words on ${location.hostname}?`;
+  message.style.fontWeight = "600";
+
+  const buttons = document.createElement("div");
+  buttons.style.cssText = "display: flex; flex-wrap: wrap; gap: 6px;";
+
+  // Each choice closes the prompt before running its action
+  const choose = (action: () => void) => () => {
+    hideSitePrompt();
+    action();
+  };
+
+  buttons.append(
+    createButton("Translate", true, choose(actions.onTranslate)),
+    createButton("Always", false, choose(actions.onAlways)),
+    createButton("Never on this site", false, choose(actions.onNever)),
+    createButton("Not now", false, hideSitePrompt)
+  );
+
+  prompt.append(message, buttons);
+  document.body.appendChild(prompt);
+}
@@ -0,0 +1,188 @@
+/**
+ * Watches the page for content added after the initial translation pass
+ * (SPA renders, infinite scroll, client-side routing)
+ */
+
+// Wait for the DOM to settle before reporting, so a burst of framework
+// updates is handled as one batch
+const MUTATION_DEBOUNCE_MS = 500;
+
+/**
+ * Nodes the extension itself inserts; mutations under these are ignored
+ */
+const OWN_NODE_SELECTORS = [
+  ".translated-word",
+  ".tob-image-container",
+  "[data-tob-overlay]",
+  "#language-hover-root",
+  "#tob-translation-notification",
+  "#tob-site-prompt",
+  "#permissionsIFrame",
+];
+
+interface DomWatcherCallbacks {
+  onContentAdded: (roots: Element[]) => void;
+  onNavigation: () => void;
+}
+
+/**
+ * Check if an element belongs to the extension's own UI or replacements
+ */
+function isOwnNode(element: Element): boolean {
+  return OWN_NODE_SELECTORS.some(
+    (selector) => element.matches(selector) || element.closest(selector)
+  );
+}
+
+export class DomWatcher {
+  private observer: MutationObserver;
+  private callbacks: DomWatcherCallbacks;
+  private pendingRoots = new Set<Element>();
+  private flushTimer: number | null = null;
+  private navigationTimer: number | null = null;
+  private lastUrl = location.href;
+  private isWatching = false;
+
+  constructor(callbacks: DomWatcherCallbacks) {
+    this.callbacks = callbacks;
+    this.observer = new MutationObserver((mutations) =>
+      this.handleMutations(mutations)
+    );
+  }
+
+  /**
+   * Start observing the document and navigation events
+   */
+  start(): void {
+    if (this.isWatching || !document.body) {
+      return;
+    }
+
+    this.isWatching = true;
+    this.lastUrl = location.href;
+    this.observer.observe(document.body, { childList: true, subtree: true });
+
+    window.addEventListener("popstate", this.handleNavigation);
+    // The page's own history.pushState calls aren't visible from the
+    // content script's isolated world, but Navigation API events are
+    (window as any).navigation?.addEventListener(
+      "navigatesuccess",
+      this.handleNavigation
+    );
+
+    console.log("[DomWatcher] Watching for new content");
+  }
+
+  /**
+   * Stop observing and drop any pending mutations
+   */
+  stop(): void {
+    if (!this.isWatching) {
+      return;
+    }
+
+    this.isWatching = false;
+    this.observer.disconnect();
+    window.removeEventListener("popstate", this.handleNavigation);
+    (window as any).navigation?.removeEventListener(
+      "navigatesuccess",
+      this.handleNavigation
+    );
+
+    this.clearTimers();
+    this.pendingRoots.clear();
+
+    console.log("[DomWatcher] Stopped");
+  }
+
+  /**
+   * Collect the added elements that aren't the extension's own nodes
+   */
+  private handleMutations(mutations: MutationRecord[]): void {
+    // A full rescan is already scheduled
+    if (this.navigationTimer !== null) {
+      return;
+    }
+
+    mutations.forEach((mutation) => {
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof Element && !isOwnNode(node)) {
+          this.pendingRoots.add(node);
+        }
+      });
+    });
+
+    // Fallback for pushState routing when the Navigation API is missing:
+    // route changes almost always re-render part of the page
+    if (location.href !== this.lastUrl) {
+      this.handleNavigation();
+      return;
+    }
+
+    if (this.pendingRoots.size > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Treat a URL change as a new page and rescan everything
+   */
+  private handleNavigation = (): void => {
+    if (location.href === this.lastUrl) {
+      return;
+    }
+
+    console.log(`[DomWatcher] Navigated to ${location.href}`);
+    this.lastUrl = location.href;
+    this.pendingRoots.clear();
+    this.clearTimers();
+
+    // Let the router finish rendering the new view first
+    this.navigationTimer = window.setTimeout(() => {
+      this.navigationTimer = null;
+      this.callbacks.onNavigation();
+    }, MUTATION_DEBOUNCE_MS);
+  };
+
+  /**
+   * Cancel any scheduled flush or navigation rescan
+   */
+  private clearTimers(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.navigationTimer !== null) {
+      clearTimeout(this.navigationTimer);
+      this.navigationTimer = null;
+    }
+  }
+
+  /**
+   * Report pending roots once mutations have settled
+   */
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+    }
+
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+
+      // Skip nodes removed again before the flush and nodes nested inside
+      // another pending root
+      const roots = Array.from(this.pendingRoots).filter(
+        (root) =>
+          root.isConnected &&
+          !Array.from(this.pendingRoots).some(
+            (other) => other !== root && other.contains(root)
+          )
+      );
+      this.pendingRoots.clear();
+
+      if (roots.length > 0) {
+        this.callbacks.onContentAdded(roots);
+      }
+    }, MUTATION_DEBOUNCE_MS);
+  }
+}
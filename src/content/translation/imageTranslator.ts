@@ -1,11 +1,18 @@
 import { imageDescriptionService } from "../services/ImageDescriptionService";
 import { translationService } from "../services/TranslationService";
 import { storageService } from "../services/StorageService";
-import type { SupportedLanguage } from "../utils/translationConfig";
+import { findCorrection } from "../services/VocabularyRepository";
+import {
+  getLanguageCode,
+  getTextDirection,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
 
 interface WordData {
-  english: string;
-  translated: string;
+  source: string;
+  target: string;
+  sourceLanguage: SupportedLanguage;
+  wordId?: string;
 }
 
 interface WordHoverHandler {
@@ -85,24 +92,28 @@ function getImageSource(img: HTMLImageElement): string | null {
  */
 function createImageOverlay(
   img: HTMLImageElement,
-  englishWord: string,
+  sourceWord: string,
   translatedWord: string,
   language: SupportedLanguage
 ): HTMLElement {
   const overlay = document.createElement("div");
   overlay.className = "tob-image-overlay";
   overlay.setAttribute("data-tob-overlay", "true");
-  overlay.setAttribute("data-english", englishWord);
-  overlay.setAttribute("data-translated", translatedWord);
+  overlay.setAttribute("data-source", sourceWord);
+  overlay.setAttribute("data-target", translatedWord);
   overlay.setAttribute("data-language", language);
 
-  // Create content
+  // Create content. The badge reads in the target language's direction,
+  // and each word keeps its own
+  const sourceLanguage = translationService.getSourceLanguage();
+  const targetDir = getTextDirection(language);
+  const sourceDir = getTextDirection(sourceLanguage);
   overlay.innerHTML = `
     <div class="tob-image-overlay-content">
-      <div class="tob-image-overlay-badge">
-        <span class="tob-image-overlay-translated">${translatedWord}</span>
+      <div class="tob-image-overlay-badge" dir="${targetDir}">
+        <span class="tob-image-overlay-translated" dir="${targetDir}" lang="${getLanguageCode(language)}">${translatedWord}</span>
         <span class="tob-image-overlay-divider">•</span>
-        <span class="tob-image-overlay-english">${englishWord}</span>
+        <span class="tob-image-overlay-source" dir="${sourceDir}" lang="${getLanguageCode(sourceLanguage)}">${sourceWord}</span>
       </div>
     </div>
   `;
@@ -157,28 +168,36 @@ export async function translateImage(
 
     console.log(`[ImageTranslator] Processing image: ${imageSource}...`);
 
-    // Step 1: Describe image in English using Prompt API
-    const englishWord = await imageDescriptionService.describeImage(
-      imageSource
+    // Step 1: Describe image in the source language using Prompt API
+    const sourceLanguage = translationService.getSourceLanguage();
+    const sourceWord = await imageDescriptionService.describeImage(
+      imageSource,
+      sourceLanguage
     );
 
-    // Step 2: Translate the word using Translator API
+    // Step 2: Translate the word using Translator API; the learner's
+    // correction of that sense wins
+    const glossary = await storageService.getGlossary(language);
     const translatorService = translationService.getTranslatorService();
-    const translatedWord = await translatorService.translateText(englishWord);
+    const translation = await translatorService.translateText(sourceWord);
+    const translatedWord =
+      findCorrection(glossary, sourceWord, translation)?.target ?? translation;
 
-    console.log(`[ImageTranslator] ${englishWord} → ${translatedWord}`);
+    console.log(`[ImageTranslator] ${sourceWord} → ${translatedWord}`);
 
     // Step 3: Record word encounter
     await storageService.recordWordEncounter(
       language,
-      englishWord.toLowerCase(),
-      translatedWord.toLowerCase()
+      sourceWord.toLowerCase(),
+      translatedWord.toLowerCase(),
+      sourceLanguage,
+      { url: window.location.href, pageTitle: document.title }
     );
 
     // Step 4: Create and add overlay
     const overlay = createImageOverlay(
       img,
-      englishWord,
+      sourceWord,
       translatedWord,
       language
     );
@@ -0,0 +1,134 @@
+import { languageDetectorService } from "../services/LanguageDetectorService";
+import {
+  getLanguageFromTag,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+
+// Below this length the detector's guesses are unreliable, so short blocks
+// inherit the page language instead
+const MIN_DETECTION_LENGTH = 40;
+const MIN_CONFIDENCE = 0.5;
+const PAGE_SAMPLE_LENGTH = 2000;
+
+/**
+ * Cache of resolved block languages so lazily loaded elements and
+ * re-translations don't hit the detector again
+ */
+const elementLanguages = new WeakMap<Element, string | null>();
+
+/**
+ * Get the language declared by the closest `lang` attribute below <html>
+ */
+function getDeclaredElementLanguage(element: Element): string | null {
+  const declaring = element.closest("[lang]");
+  if (!declaring || declaring === document.documentElement) {
+    return null;
+  }
+  return declaring.getAttribute("lang") || null;
+}
+
+/**
+ * Get the language declared on <html lang>
+ */
+function getDeclaredPageLanguage(): string | null {
+  return document.documentElement.getAttribute("lang") || null;
+}
+
+/**
+ * Run the detector, returning a tag only for confident results
+ */
+async function detectLanguage(text: string): Promise<string | null> {
+  const result = await languageDetectorService.detect(text);
+  if (!result || result.confidence < MIN_CONFIDENCE) {
+    return null;
+  }
+  return result.detectedLanguage;
+}
+
+/**
+ * Determine the language of the page as a whole. A declared <html lang> of
+ * a registry language is honoured; the detector, run on a sample of the
+ * body text, is only asked when it is missing or names another language.
+ */
+export async function detectPageLanguage(): Promise<string | null> {
+  const declared = getDeclaredPageLanguage();
+  if (declared && getLanguageFromTag(declared)) {
+    return declared;
+  }
+
+  const sample = (document.body?.innerText || "").slice(0, PAGE_SAMPLE_LENGTH);
+
+  if (sample.trim().length >= MIN_DETECTION_LENGTH) {
+    const detected = await detectLanguage(sample);
+    if (detected) {
+      return detected;
+    }
+  }
+
+  return declared;
+}
+
+/**
+ * Determine the language of a single content block.
+ * Order: element-level `lang` attribute → detector → page language.
+ */
+async function getElementLanguage(
+  element: Element,
+  pageLanguage: string | null
+): Promise<string | null> {
+  if (elementLanguages.has(element)) {
+    return elementLanguages.get(element) ?? null;
+  }
+
+  let language = getDeclaredElementLanguage(element);
+
+  if (!language) {
+    const text = element.textContent?.trim() || "";
+    if (text.length >= MIN_DETECTION_LENGTH) {
+      language = await detectLanguage(text);
+    }
+  }
+
+  const resolved = language || pageLanguage;
+  elementLanguages.set(element, resolved);
+  return resolved;
+}
+
+/**
+ * Group elements by the registry language they are written in, so each
+ * group goes to a translator from its own language. Blocks whose language
+ * can't be determined count as the source language. Blocks already in the
+ * target language, or in a language outside the registry, are skipped so
+ * no translator receives text it can't handle.
+ */
+export async function groupByLanguage(
+  elements: Element[],
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  pageLanguage: string | null
+): Promise<Map<SupportedLanguage, Element[]>> {
+  const languages = await Promise.all(
+    elements.map((element) => getElementLanguage(element, pageLanguage))
+  );
+
+  const groups = new Map<SupportedLanguage, Element[]>();
+  let skipped = 0;
+
+  elements.forEach((element, index) => {
+    const tag = languages[index];
+    const language = tag ? getLanguageFromTag(tag) : sourceLanguage;
+    if (!language || language === targetLanguage) {
+      skipped++;
+      return;
+    }
+    groups.set(language, [...(groups.get(language) || []), element]);
+  });
+
+  if (skipped > 0) {
+    console.log(
+      `[LanguageFilter] Skipping ${skipped} of ${elements.length} blocks in the target language or an unsupported one`
+    );
+  }
+
+  return groups;
+}
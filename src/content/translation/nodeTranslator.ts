@@ -1,15 +1,61 @@
 import { translationService } from "../services/TranslationService";
+import type { translatorService } from "../services/TranslatorService";
 import { storageService } from "../services/StorageService";
-import { type SentenceBatch, type SentenceInfo } from "../utils/textExtraction";
+import {
+  findWordMatches,
+  replaceRunRange,
+  type SentenceBatch,
+  type SentenceInfo,
+} from "../utils/textExtraction";
 import { translationState } from "./translationState";
-import type { WordPair } from "../services/PromptService";
+import {
+  getPairLemma,
+  type promptService,
+  type TranslatedSentence,
+  type WordPair,
+} from "../services/PromptService";
 import { setImageHoverHandler } from "./imageTranslator";
+import { isPhrase } from "../utils/lemmatizer";
+import { pageCacheService } from "../services/PageCacheService";
+import {
+  findCorrection,
+  getBaseWordId,
+  type GlossaryEntry,
+  type WordSelectionHints,
+} from "../services/VocabularyRepository";
+import {
+  getLanguageCode,
+  getTextDirection,
+  type GrammaticalGender,
+  type SupportedLanguage,
+  type TranslationConfig,
+} from "../utils/translationConfig";
 
 interface WordData {
-  english: string;
-  translated: string;
+  source: string;
+  target: string;
+  sourceLanguage: SupportedLanguage;
+  // Stored sense of the word, once its encounter has been recorded
+  wordId?: string;
+  // Dictionary forms, when the page shows an inflected form
+  lemma?: string;
+  targetLemma?: string;
+  // How the page's form is inflected ("plural"), which the translation
+  // agrees with
+  inflection?: string;
+  // Part of speech the model gave the pair ("verb")
+  partOfSpeech?: string;
 }
 
+/**
+ * Underline colors for noun genders, when the learner turns them on
+ */
+const GENDER_COLORS: Record<GrammaticalGender, string> = {
+  masculine: "#3B82F6",
+  feminine: "#EC4899",
+  neuter: "#22C55E",
+};
+
 interface WordHoverHandler {
   show: (data: WordData, element: HTMLElement, language: any) => void;
   hide: () => void;
@@ -18,6 +64,9 @@ interface WordHoverHandler {
 // Store hover handler so DOM event handlers can access it
 let hoverHandler: WordHoverHandler | null = null;
 
+// Learner-corrected translations by word ID of the sense, loaded per run
+let glossary: Record<string, GlossaryEntry> = {};
+
 /**
  * Set the hover handler from React context
  */
@@ -28,12 +77,15 @@ export function setTooltipHandler(handler: WordHoverHandler): void {
 }
 
 /**
- * Translate and replace sentence batches using regex with parallel processing
+ * Translate and replace sentence batches using regex with parallel
+ * processing. Batches from blocks in another language than the configured
+ * source pass that language, which selection and storage then use instead.
  */
 export async function translateAndReplaceBatches(
   batches: SentenceBatch[],
   concurrency: number = 3,
-  onBatchComplete?: (completed: number, total: number) => void
+  onBatchComplete?: (completed: number, total: number) => void,
+  sourceLanguage?: SupportedLanguage
 ): Promise<void> {
   console.log(`Processing ${batches.length} sentence batches with concurrency ${concurrency}`);
 
@@ -50,7 +102,20 @@ export async function translateAndReplaceBatches(
 
   const promptService = translationService.getPromptService();
   const translatorService = translationService.getTranslatorService();
-  const config = translationService.getConfig();
+  const config: TranslationConfig = {
+    ...translationService.getConfig(),
+    ...(sourceLanguage ? { sourceLanguage } : {}),
+  };
+
+  // Loaded once per run so every batch sees the same vocabulary
+  const [hints, corrections] = await Promise.all([
+    storageService.getWordSelectionHints(
+      config.activeLanguage,
+      config.sourceLanguage
+    ),
+    storageService.getGlossary(config.activeLanguage),
+  ]);
+  glossary = corrections;
 
   let completed = 0;
 
@@ -68,7 +133,7 @@ export async function translateAndReplaceBatches(
     // Process this group in parallel
     const results = await Promise.allSettled(
       batchGroup.map(batch =>
-        processBatch(batch, promptService, translatorService, config)
+        processBatch(batch, promptService, translatorService, config, hints)
       )
     );
 
@@ -109,9 +174,10 @@ export async function translateAndReplaceBatches(
  */
 async function processBatch(
   batch: SentenceBatch,
-  promptService: any,
-  translatorService: any,
-  config: any
+  prompts: typeof promptService,
+  translator: typeof translatorService,
+  config: TranslationConfig,
+  hints: WordSelectionHints
 ): Promise<void> {
   const { combinedText, sentences } = batch;
 
@@ -124,14 +190,41 @@ async function processBatch(
     throw new DOMException("Translation aborted", "AbortError");
   }
 
-  // Step 1: Translate entire batch
-  const translatedText = await translatorService.translateText(combinedText);
+  // Step 0: Re-apply word pairs cached from an earlier visit
+  const cacheKey = await getBatchCacheKey(combinedText, config);
+  const cachedPairs = cacheKey ? await getCachedWordPairs(cacheKey.key) : null;
+
+  if (cachedPairs) {
+    // Words ignored since the selection was cached stay untranslated
+    const ignored = new Set(hints.ignored);
+    const usablePairs = cachedPairs.filter(
+      (pair) => !ignored.has(getPairLemma(pair))
+    );
+    console.log(`Cache hit: re-applying ${usablePairs.length} word pairs`);
+    replaceWordsInBatch(sentences, usablePairs, config.sourceLanguage);
+    return;
+  }
+
+  // Step 1: Translate the sentences, so every word can be matched with the
+  // meaning it has in its own sentence
+  const translations = await translateSentences(
+    sentences,
+    translator,
+    getLanguageCode(config.sourceLanguage)
+  );
 
-  if (!translatedText || translatedText.trim().length === 0) {
+  if (translations.every((translation) => translation.length === 0)) {
     console.warn("Empty translation, skipping batch");
     return;
   }
 
+  const translatedSentences: TranslatedSentence[] = sentences.map(
+    (sentence, index) => ({
+      text: sentence.text,
+      translation: translations[index],
+    })
+  );
+
   console.log("Translation complete, selecting words...");
 
   // Check again before word selection
@@ -140,12 +233,19 @@ async function processBatch(
   }
 
   // Step 2: Use Prompt API to select words (no positions needed)
-  const wordPairs = await promptService.selectWordsFromBatch(
-    combinedText,
-    translatedText,
-    config
+  const wordPairs = await prompts.selectWordsFromBatch(
+    translatedSentences,
+    config,
+    hints
   );
 
+  // Cache the selection (even an empty one) for the next visit
+  if (cacheKey) {
+    pageCacheService
+      .set(cacheKey.key, cacheKey.url, wordPairs)
+      .catch((error) => console.warn("Failed to cache word pairs:", error));
+  }
+
   if (wordPairs.length === 0) {
     console.log("No words selected for this batch");
     return;
@@ -158,127 +258,274 @@ async function processBatch(
     throw new DOMException("Translation aborted", "AbortError");
   }
 
-  // Step 3: For each sentence in batch, replace words using regex
-  sentences.forEach((sentence) => {
-    replaceWordsInSentence(sentence, wordPairs);
-  });
+  // Step 3: Replace each word in the sentence it was translated for
+  replaceWordsInBatch(sentences, wordPairs, config.sourceLanguage);
 }
 
 /**
- * Replace words in a sentence using regex (finds all occurrences)
+ * Translate a batch's sentences in one call, one sentence per line. If the
+ * translation doesn't keep the lines, fall back to translating them one at
+ * a time: the on-device model runs one request at a time anyway, so
+ * parallel calls only queue up behind each other.
  */
-function replaceWordsInSentence(
-  sentence: SentenceInfo,
-  wordPairs: WordPair[]
+async function translateSentences(
+  sentences: SentenceInfo[],
+  translator: typeof translatorService,
+  sourceCode: string
+): Promise<string[]> {
+  const lines = sentences.map((sentence) =>
+    sentence.text.replace(/\s+/g, " ").trim()
+  );
+  const translation = await translator.translateText(
+    lines.join("\n"),
+    sourceCode
+  );
+  const translatedLines = translation.split("\n").map((line) => line.trim());
+  if (translation.length === 0 || translatedLines.length === lines.length) {
+    return lines.map((_, index) => translatedLines[index] ?? "");
+  }
+
+  console.warn("Batch translation lost sentence breaks, translating singly");
+  const translations: string[] = [];
+  for (const line of lines) {
+    translations.push(await translator.translateText(line, sourceCode));
+  }
+  return translations;
+}
+
+/**
+ * Build the page cache key for a batch; null if hashing is unavailable
+ */
+async function getBatchCacheKey(
+  combinedText: string,
+  config: TranslationConfig
+): Promise<{ key: string; url: string } | null> {
+  try {
+    return await pageCacheService.buildKey(location.href, combinedText, config);
+  } catch (error) {
+    console.warn("Could not build cache key:", error);
+    return null;
+  }
+}
+
+/**
+ * Look up cached word pairs, treating any cache failure as a miss
+ */
+async function getCachedWordPairs(key: string): Promise<WordPair[] | null> {
+  try {
+    return await pageCacheService.get(key);
+  } catch (error) {
+    console.warn("Page cache unavailable:", error);
+    return null;
+  }
+}
+
+/**
+ * Replace words in the sentences of a batch. A pair only applies to the
+ * sentence it was selected for (pairs without one apply to all).
+ */
+function replaceWordsInBatch(
+  sentences: SentenceInfo[],
+  wordPairs: WordPair[],
+  sourceLanguage: SupportedLanguage
 ): void {
-  const { node } = sentence;
+  sentences.forEach((sentence, index) => {
+    const pairs = wordPairs.filter(
+      (pair) => pair.sentence === undefined || pair.sentence === index
+    );
+    if (pairs.length === 0) return;
 
-  // Process each word pair
-  wordPairs.forEach((pair) => {
     try {
-      replaceWordInNode(node, pair.original, pair.translated);
+      replaceWordsInSentence(sentence, pairs, sourceLanguage);
     } catch (error) {
-      console.error(
-        `Error replacing word "${pair.original}" in sentence:`,
-        error
-      );
+      console.error("Error replacing words in sentence:", error);
     }
   });
 }
 
 /**
- * Replace all occurrences of a word in a text node using regex
+ * Replace all occurrences of the selected words and phrases in a sentence.
+ * A phrase may span several text nodes of the sentence's run.
  */
-function replaceWordInNode(
-  node: Text,
-  originalWord: string,
-  translatedWord: string
+function replaceWordsInSentence(
+  sentence: SentenceInfo,
+  wordPairs: WordPair[],
+  sourceLanguage: SupportedLanguage
 ): void {
-  if (!node.textContent) return;
+  const { run, startOffset, endOffset } = sentence;
+  const sentenceText = run.text.slice(startOffset, endOffset);
 
-  const text = node.textContent;
+  // Find all matches with their offsets in the run
+  const matches: Array<{
+    index: number;
+    word: string; // Actual matched text (preserves original case)
+    pair: WordPair;
+  }> = [];
 
-  // Create regex to find word with word boundaries (case-insensitive)
-  const wordRegex = new RegExp(`\\b${escapeRegex(originalWord)}\\b`, "gi");
-
-  // Check if word exists in this node
-  if (!wordRegex.test(text)) {
-    return; // Word not in this node
-  }
-
-  // Reset regex
-  wordRegex.lastIndex = 0;
-
-  // Find all matches with their positions
-  const matches: Array<{ index: number; word: string }> = [];
-  let match;
-
-  while ((match = wordRegex.exec(text)) !== null) {
-    matches.push({
-      index: match.index,
-      word: match[0], // Actual matched text (preserves original case)
-    });
-  }
+  wordPairs.forEach((pair) => {
+    findWordMatches(sentenceText, pair.original, sourceLanguage).forEach(
+      (match) => {
+        matches.push({
+          index: startOffset + match.index,
+          word: match.text,
+          pair,
+        });
+      }
+    );
+  });
 
   if (matches.length === 0) return;
 
-  // Build new DOM structure with translated words
-  const fragment = document.createDocumentFragment();
-  let lastIndex = 0;
+  // A phrase wins over a word inside it ("give up" over "give")
+  matches.sort(
+    (a, b) => a.index - b.index || b.word.length - a.word.length
+  );
+
+  const language = translationService.getCurrentLanguage();
+  let lastIndex = startOffset;
 
   matches.forEach((match) => {
-    // Add text before the match
-    if (match.index > lastIndex) {
-      fragment.appendChild(
-        document.createTextNode(text.substring(lastIndex, match.index))
-      );
-    }
+    // Skip a match overlapping one that is already replaced
+    if (match.index < lastIndex) return;
+
+    // The learner's correction of this sense always beats the model's
+    // translation, inflected occurrences included. It is a dictionary form
+    // and shown as is: the form agreeing with an inflected word isn't known,
+    // and the hover card names the inflection
+    const originalWord = match.pair.original.toLowerCase();
+    const lemma = getPairLemma(match.pair);
+    const correction = findCorrection(
+      glossary,
+      lemma,
+      match.pair.targetLemma ?? match.pair.translated
+    )?.target;
+    const translation = correction ?? match.pair.translated;
 
     // Preserve capitalization from original
-    const translatedWithCase = preserveCapitalization(
-      match.word,
-      translatedWord
-    );
-
-    // Create span for translated word
-    const span = createTranslatedWordSpan(match.word, translatedWithCase);
-    fragment.appendChild(span);
+    const translatedWithCase = preserveCapitalization(match.word, translation);
 
-    // Record this word encounter in storage
-    const language = translationService.getCurrentLanguage();
-    storageService.recordWordEncounter(
-      language,
-      originalWord.toLowerCase(),
-      translatedWord.toLowerCase()
+    // Create span for translated word (or the whole phrase). A reading
+    // belongs to the model's translation, not to a correction
+    const span = createTranslatedWordSpan(
+      match.word,
+      translatedWithCase,
+      sourceLanguage,
+      correction ? undefined : match.pair.reading
     );
+    span.dataset.lemma = lemma;
+    if (match.pair.targetLemma) {
+      span.dataset.targetLemma = correction ?? match.pair.targetLemma;
+    }
+    // The span shows the inflected form; the hover card names the lemma
+    if (match.pair.inflection) {
+      span.dataset.inflection = match.pair.inflection;
+    }
+    // Still true of a correction, and known even when the stored word has
+    // no grammar
+    if (match.pair.grammar) {
+      span.dataset.partOfSpeech = match.pair.grammar.partOfSpeech;
+    }
+    // Gender, like the reading, is the model's for its own translation
+    const grammar = correction ? undefined : match.pair.grammar;
+    if (grammar?.gender) {
+      showGender(span, grammar.gender);
+    }
 
-    lastIndex = match.index + match.word.length;
+    const end = match.index + match.word.length;
+    if (!replaceRunRange(run, match.index, end, span)) {
+      // Already translated, or the page changed the text meanwhile
+      return;
+    }
+    lastIndex = end;
+
+    // Record this word encounter; it is counted under the lemma, in the
+    // sense matching this translation
+    storageService
+      .recordWordEncounter(
+        language,
+        originalWord,
+        translation.toLowerCase(),
+        sourceLanguage,
+        {
+          sentence: sentence.text,
+          url: window.location.href,
+          pageTitle: document.title,
+          difficulty: translationService.getConfig().difficulty,
+          grammar,
+        },
+        { lemma: match.pair.lemma, targetLemma: match.pair.targetLemma }
+      )
+      .then((wordId) => {
+        if (wordId) {
+          span.dataset.wordId = wordId;
+        }
+      });
   });
-
-  // Add remaining text after last match
-  if (lastIndex < text.length) {
-    fragment.appendChild(document.createTextNode(text.substring(lastIndex)));
-  }
-
-  // Replace the original text node with the fragment
-  node.parentNode?.replaceChild(fragment, node);
 }
 
 /**
- * Escape special regex characters in a string
+ * Show a corrected translation in place of every translation of a sense
+ * already on the page, and use it for batches translated from now on.
+ * `replaced` is the translation being corrected.
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+export function applyCorrection(
+  wordId: string,
+  target: string,
+  replaced: string
+): void {
+  const previous = glossary[wordId];
+  glossary = {
+    ...glossary,
+    [wordId]: {
+      language: translationService.getCurrentLanguage(),
+      source: wordId,
+      target,
+      // An earlier correction keeps the model's translation it replaced
+      replaced: previous ? previous.replaced : replaced,
+      sourceLanguage:
+        previous?.sourceLanguage ?? translationService.getSourceLanguage(),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+
+  document
+    .querySelectorAll<HTMLSpanElement>(".translated-word")
+    .forEach((span) => {
+      // Spans still being recorded don't know their sense yet
+      const spanWordId =
+        span.dataset.wordId ??
+        (span.dataset.lemma && getBaseWordId(span.dataset.lemma));
+      if (spanWordId !== wordId) {
+        return;
+      }
+      const originalWord = span.dataset.source;
+      if (originalWord) {
+        const corrected = preserveCapitalization(originalWord, target);
+        span.textContent = corrected;
+        span.dataset.target = corrected;
+        delete span.dataset.reading;
+        delete span.dataset.gender;
+        span.style.boxShadow = "";
+      }
+      if (span.dataset.targetLemma) {
+        span.dataset.targetLemma = target;
+      }
+    });
 }
 
 /**
- * Preserve capitalization from original word
+ * Preserve capitalization from original word. Scripts without case
+ * (Japanese, Chinese, Thai) have none to carry over.
  */
 function preserveCapitalization(original: string, translated: string): string {
   if (original.length === 0 || translated.length === 0) {
     return translated;
   }
 
+  if (original.toUpperCase() === original.toLowerCase()) {
+    return translated;
+  }
+
   // If entire word is uppercase
   if (original === original.toUpperCase()) {
     return translated.toUpperCase();
@@ -294,21 +541,64 @@ function preserveCapitalization(original: string, translated: string): string {
 }
 
 /**
- * Create a span element for a translated word with hover functionality
+ * Mark a translated noun with its gender, and underline it in the gender's
+ * color if the learner asked for it
+ */
+function showGender(span: HTMLSpanElement, gender: GrammaticalGender): void {
+  span.dataset.gender = gender;
+  if (translationService.getConfig().colorByGender) {
+    span.style.boxShadow = `inset 0 -2px 0 ${GENDER_COLORS[gender]}`;
+  }
+}
+
+/**
+ * Show a translation with its furigana or pinyin above it
+ */
+function createRuby(text: string, reading: string): HTMLElement {
+  const ruby = document.createElement("ruby");
+  const annotation = document.createElement("rt");
+  annotation.textContent = reading;
+  annotation.style.cssText = "font-size: 0.6em; user-select: none;";
+  ruby.append(text, annotation);
+  return ruby;
+}
+
+/**
+ * Create a span element for a translated word or phrase with hover
+ * functionality
  */
 function createTranslatedWordSpan(
   originalWord: string,
-  translatedWord: string
+  translatedWord: string,
+  sourceLanguage: SupportedLanguage,
+  reading?: string
 ): HTMLSpanElement {
   const span = document.createElement("span");
-  span.textContent = translatedWord;
+  if (reading && translationService.getConfig().showReadings) {
+    span.append(createRuby(translatedWord, reading));
+    span.dataset.reading = reading;
+  } else {
+    span.textContent = translatedWord;
+  }
   span.className = "translated-word";
   span.style.cssText =
     "background: #A5BFDF4D; cursor: pointer; transition: background 0.2s; display: inline-block; border-radius: 2px; line-height: normal; width: max-content; height: max-content; padding: 0 2px;";
 
+  // A phrase may need to wrap across lines, which inline-block prevents
+  if (isPhrase(originalWord)) {
+    span.style.display = "inline";
+  }
+
+  // Isolate the word from the paragraph's direction, so an Arabic word in
+  // an English sentence (or the reverse) keeps the punctuation around it
+  const targetLanguage = translationService.getCurrentLanguage();
+  span.lang = getLanguageCode(targetLanguage);
+  span.dir = getTextDirection(targetLanguage);
+  span.style.unicodeBidi = "isolate";
+
   // Store data attributes
-  span.dataset.english = originalWord;
-  span.dataset.translated = translatedWord;
+  span.dataset.source = originalWord;
+  span.dataset.target = translatedWord;
 
   // Add hover listeners with current language
   span.addEventListener("mouseenter", () => {
@@ -318,8 +608,15 @@ function createTranslatedWordSpan(
       const language = translationService.getCurrentLanguage();
       hoverHandler.show(
         {
-          english: originalWord,
-          translated: translatedWord,
+          source: originalWord,
+          // Read from the span so corrections show up without a reload
+          target: span.dataset.target || translatedWord,
+          sourceLanguage,
+          wordId: span.dataset.wordId,
+          lemma: span.dataset.lemma,
+          targetLemma: span.dataset.targetLemma,
+          inflection: span.dataset.inflection,
+          partOfSpeech: span.dataset.partOfSpeech,
         },
         span,
         language
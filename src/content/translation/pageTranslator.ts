@@ -1,14 +1,63 @@
 import { translationService } from "../services/TranslationService";
 import {
   getContentElements,
-  getTextNodes,
+  getContentElementsWithin,
+  getTextRuns,
   extractSentences,
   batchSentences,
+  type SentenceInfo,
   ProgressiveTextLoader,
 } from "../utils/textExtraction";
 import { translateAndReplaceBatches } from "./nodeTranslator";
 import { translationState } from "./translationState";
 import { translateImages } from "./imageTranslator";
+import { detectPageLanguage, groupByLanguage } from "./languageFilter";
+import { DomWatcher } from "./domWatcher";
+import {
+  getLanguageCode,
+  type SupportedLanguage,
+} from "../utils/translationConfig";
+
+/**
+ * Text nodes already translated in this session, with the text they had
+ * then: a node the page rewrites in place counts as new text
+ */
+let translatedText = new WeakMap<Text, string>();
+/**
+ * Elements being translated or queued for lazy loading, so overlapping
+ * scans don't pick them up twice
+ */
+let pendingElements = new WeakSet<Element>();
+let pageLanguage: string | null = null;
+let progressiveLoader: ProgressiveTextLoader | null = null;
+// Language of hidden blocks not written in the source language, for when
+// they scroll into view
+let blockLanguages = new WeakMap<Element, SupportedLanguage>();
+
+const domWatcher = new DomWatcher({
+  onContentAdded: (roots) => {
+    const elements = getContentElementsWithin(roots);
+    if (elements.length > 0) {
+      console.log(`DOM watcher found ${elements.length} new content elements`);
+      translateElements(elements).catch((error) =>
+        console.error("Error translating new content:", error)
+      );
+    }
+  },
+  onNavigation: () => {
+    // A client-side route change is a new page: re-detect its language and
+    // pick up everything the new view rendered
+    detectPageLanguage()
+      .then((language) => {
+        pageLanguage = language;
+        console.log(`Detected page language: ${language ?? "unknown"}`);
+        return translateElements(getContentElements());
+      })
+      .catch((error) =>
+        console.error("Error translating after navigation:", error)
+      );
+  },
+});
 
 /**
  * Separate elements into visible and hidden based on viewport
@@ -34,98 +83,230 @@ function separateByVisibility(elements: Element[]): {
   return { visible, hidden };
 }
 
+function isTranslatedText(node: Text): boolean {
+  return translatedText.get(node) === node.data;
+}
+
 /**
- * Main function to translate all content on the page
+ * Whether an element holds text not translated yet
  */
-export async function translatePage(): Promise<void> {
-  console.log("Starting page translation...");
+function hasNewText(element: Element): boolean {
+  return getTextRuns([element]).some((run) =>
+    run.segments.some((segment) => !isTranslatedText(segment.node))
+  );
+}
 
-  if (!translationService.isInitialized()) {
-    throw new Error("Translation service not initialized");
+/**
+ * Record the current text of elements as translated, including the pieces
+ * left over where a replacement split a text node
+ */
+function markTranslated(elements: Element[]): void {
+  getTextRuns(elements).forEach((run) =>
+    run.segments.forEach((segment) =>
+      translatedText.set(segment.node, segment.node.data)
+    )
+  );
+}
+
+/**
+ * Sentences of elements with text not translated yet. Their text is marked
+ * right away so a concurrent pass doesn't translate it again.
+ */
+function extractNewSentences(
+  elements: Element[],
+  language: SupportedLanguage
+): SentenceInfo[] {
+  const runs = getTextRuns(elements);
+  const sentences = extractSentences(runs, language).filter((sentence) =>
+    sentence.run.segments.some(
+      (segment) =>
+        segment.start < sentence.endOffset &&
+        segment.start + segment.node.length > sentence.startOffset &&
+        !isTranslatedText(segment.node)
+    )
+  );
+  markTranslated(elements);
+  return sentences;
+}
+
+/**
+ * Get the lazy loader for hidden content, creating it on first use
+ */
+function getProgressiveLoader(): ProgressiveTextLoader {
+  if (!progressiveLoader) {
+    progressiveLoader = new ProgressiveTextLoader(async (element) => {
+      // Check if translation is still active
+      if (!translationState.shouldContinue()) {
+        console.log("Translation cancelled, skipping lazy loading");
+        return;
+      }
+
+      const language =
+        blockLanguages.get(element) ?? translationService.getSourceLanguage();
+      const sentences = extractNewSentences([element], language);
+      const batches = batchSentences(sentences, 5);
+
+      console.log(`Lazily processing ${batches.length} batches`);
+      await translateAndReplaceBatches(
+        batches,
+        3, // Process 3 batches concurrently
+        (completed, total) => {
+          console.log(`Lazy load progress: ${completed}/${total} batches translated`);
+        },
+        language
+      );
+      markTranslated([element]);
+      pendingElements.delete(element);
+    });
   }
+  return progressiveLoader;
+}
 
-  // Start a new translation session
-  const abortController = translationState.start();
+/**
+ * Translate content elements: visible ones immediately, hidden ones as they
+ * scroll into view. Only text not translated earlier in the session is.
+ * Blocks in another language than the source go to a translator from that
+ * language when one is installed.
+ */
+async function translateElements(candidates: Element[]): Promise<void> {
+  if (!translationState.shouldContinue()) {
+    return;
+  }
 
-  try {
-    const contentElements = getContentElements();
-    console.log(`Found ${contentElements.length} content elements to process`);
+  const newElements = candidates.filter(
+    (el) => !pendingElements.has(el) && hasNewText(el)
+  );
+  newElements.forEach((el) => pendingElements.add(el));
 
-    if (contentElements.length === 0) {
-      console.warn("No content elements found to translate");
+  if (newElements.length === 0) {
+    return;
+  }
+
+  const sourceLanguage = translationService.getSourceLanguage();
+  const groups = await groupByLanguage(
+    newElements,
+    sourceLanguage,
+    translationService.getCurrentLanguage(),
+    pageLanguage
+  );
+
+  // The source language first, as it is usually most of the page
+  const languages = [...groups.keys()].sort(
+    (a, b) => Number(b === sourceLanguage) - Number(a === sourceLanguage)
+  );
+  for (const language of languages) {
+    if (!translationState.shouldContinue()) {
       return;
     }
 
-    // Separate visible and hidden elements
-    const { visible, hidden } = separateByVisibility(contentElements);
-    console.log(`Visible: ${visible.length}, Hidden: ${hidden.length}`);
+    if (
+      language !== sourceLanguage &&
+      !(await translationService
+        .getTranslatorService()
+        .canTranslateFrom(getLanguageCode(language)))
+    ) {
+      console.log(
+        `Skipping ${groups.get(language)!.length} blocks in "${language}": no installed translator`
+      );
+      groups.get(language)!.forEach((el) => pendingElements.delete(el));
+      continue;
+    }
 
-    // Process visible content immediately
-    if (visible.length > 0) {
-      // Extract text nodes from visible elements
-      const visibleTextNodes = getTextNodes(visible);
-      console.log(`Found ${visibleTextNodes.length} visible text nodes`);
+    await translateBlocks(groups.get(language)!, language);
+  }
+}
 
-      // Extract sentences from text nodes
-      const visibleSentences = extractSentences(visibleTextNodes);
-      console.log(`Extracted ${visibleSentences.length} visible sentences`);
+/**
+ * Translate content elements written in one language
+ */
+async function translateBlocks(
+  contentElements: Element[],
+  language: SupportedLanguage
+): Promise<void> {
+  console.log(
+    `Found ${contentElements.length} content elements to process in "${language}"`
+  );
 
-      // Batch sentences into groups of 5
-      const visibleBatches = batchSentences(visibleSentences, 5);
-      console.log(
-        `Created ${visibleBatches.length} batches for visible content`
-      );
+  // Separate visible and hidden elements
+  const { visible, hidden } = separateByVisibility(contentElements);
+  console.log(`Visible: ${visible.length}, Hidden: ${hidden.length}`);
 
-      // Check if still active before processing
-      if (!translationState.shouldContinue()) {
-        console.log("Translation cancelled before processing visible batches");
-        return;
-      }
+  // Process visible content immediately
+  if (visible.length > 0) {
+    // Extract the sentences with new text from visible paragraphs
+    const visibleSentences = extractNewSentences(visible, language);
+    console.log(`Extracted ${visibleSentences.length} visible sentences`);
 
-      // Process batches with streaming progress updates
-      await translateAndReplaceBatches(
-        visibleBatches,
-        3, // Process 3 batches concurrently
-        (completed, total) => {
-          console.log(`Progress: ${completed}/${total} batches translated`);
-        }
-      );
-    }
+    // Batch sentences into groups of 5
+    const visibleBatches = batchSentences(visibleSentences, 5);
+    console.log(`Created ${visibleBatches.length} batches for visible content`);
 
-    // Check again before setting up progressive loading
+    // Check if still active before processing
     if (!translationState.shouldContinue()) {
-      console.log("Translation cancelled before progressive loading");
+      console.log("Translation cancelled before processing visible batches");
       return;
     }
 
-    // Set up progressive loading for hidden content
-    if (hidden.length > 0) {
-      const loader = new ProgressiveTextLoader(async (element) => {
-        // Check if translation is still active
-        if (!translationState.shouldContinue()) {
-          console.log("Translation cancelled, skipping lazy loading");
-          return;
-        }
-
-        const textNodes = getTextNodes([element]);
-        const sentences = extractSentences(textNodes);
-        const batches = batchSentences(sentences, 5);
-
-        console.log(`Lazily processing ${batches.length} batches`);
-        await translateAndReplaceBatches(
-          batches,
-          3, // Process 3 batches concurrently
-          (completed, total) => {
-            console.log(`Lazy load progress: ${completed}/${total} batches translated`);
-          }
-        );
-      });
-
-      loader.observe(hidden);
+    // Process batches with streaming progress updates
+    await translateAndReplaceBatches(
+      visibleBatches,
+      3, // Process 3 batches concurrently
+      (completed, total) => {
+        console.log(`Progress: ${completed}/${total} batches translated`);
+      },
+      language
+    );
+    markTranslated(visible);
+    visible.forEach((el) => pendingElements.delete(el));
+  }
+
+  // Check again before setting up progressive loading
+  if (!translationState.shouldContinue()) {
+    console.log("Translation cancelled before progressive loading");
+    return;
+  }
+
+  // Set up progressive loading for hidden content
+  if (hidden.length > 0) {
+    hidden.forEach((el) => blockLanguages.set(el, language));
+    getProgressiveLoader().observe(hidden);
+  }
+}
+
+/**
+ * Main function to translate all content on the page
+ */
+export async function translatePage(): Promise<void> {
+  console.log("Starting page translation...");
+
+  if (!translationService.isInitialized()) {
+    throw new Error("Translation service not initialized");
+  }
+
+  // Start a new translation session
+  translationState.start();
+  translatedText = new WeakMap<Text, string>();
+  pendingElements = new WeakSet<Element>();
+  blockLanguages = new WeakMap<Element, SupportedLanguage>();
+
+  try {
+    pageLanguage = await detectPageLanguage();
+    console.log(`Detected page language: ${pageLanguage ?? "unknown"}`);
+
+    const contentElements = getContentElements();
+    if (contentElements.length === 0) {
+      console.warn("No content elements found to translate");
+    } else {
+      await translateElements(contentElements);
+    }
+
+    // Keep translating content the page adds later
+    if (translationState.shouldContinue()) {
+      domWatcher.start();
     }
 
     // Translate images after text translation is complete
-    if (translationState.shouldContinue()) {
+    if (contentElements.length > 0 && translationState.shouldContinue()) {
       console.log("Starting image translation...");
       const currentLanguage = translationService.getCurrentLanguage();
       await translateImages(currentLanguage);
@@ -147,4 +328,7 @@ export async function translatePage(): Promise<void> {
  */
 export function stopTranslation(): void {
   translationState.stop();
+  domWatcher.stop();
+  progressiveLoader?.disconnect();
+  progressiveLoader = null;
 }
@@ -10,7 +10,7 @@ export function clearTranslations(): void {
   const translatedWords = document.querySelectorAll(".translated-word");
 
   translatedWords.forEach((span) => {
-    const originalWord = span.getAttribute("data-english");
+    const originalWord = span.getAttribute("data-source");
     if (originalWord) {
       // Create a text node with the original word
       const textNode = document.createTextNode(originalWord);
@@ -25,6 +25,32 @@ export function clearTranslations(): void {
   clearImageTranslations();
 }
 
+/**
+ * Restore the original text wherever one word was translated (e.g. after
+ * the learner chose to ignore it), inflected forms included. Spans are
+ * matched on their lemma, or on their own text if they have none.
+ */
+export function clearWordTranslations(lemma: string): void {
+  const target = lemma.toLowerCase();
+  let cleared = 0;
+
+  document
+    .querySelectorAll<HTMLElement>(".translated-word")
+    .forEach((span) => {
+      const originalWord = span.dataset.source;
+      const spanLemma = span.dataset.lemma ?? originalWord?.toLowerCase();
+      if (originalWord && spanLemma === target) {
+        span.parentNode?.replaceChild(
+          document.createTextNode(originalWord),
+          span
+        );
+        cleared++;
+      }
+    });
+
+  console.log(`Cleared ${cleared} translations of "${lemma}"`);
+}
+
 /**
  * Check if page has translations
  */
@@ -46,7 +72,7 @@ export function clearTranslationsInElement(element: Element): void {
   const translatedWords = element.querySelectorAll(".translated-word");
 
   translatedWords.forEach((span) => {
-    const originalWord = span.getAttribute("data-english");
+    const originalWord = span.getAttribute("data-source");
     if (originalWord) {
       const textNode = document.createTextNode(originalWord);
       span.parentNode?.replaceChild(textNode, span);
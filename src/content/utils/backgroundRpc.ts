@@ -0,0 +1,42 @@
+/**
+ * Minimal RPC from content scripts to the background service worker, for
+ * services whose data must live in the extension's own origin (IndexedDB)
+ */
+
+export interface RpcRequest {
+  type: "RPC";
+  method: string;
+  args: unknown[];
+}
+
+export type RpcResponse =
+  | { ok: true; result: unknown }
+  | { ok: false; error: string };
+
+/**
+ * Check if code runs in an extension page or the service worker (as opposed
+ * to a content script running inside a website)
+ */
+export function isExtensionContext(): boolean {
+  return self.location.protocol === "chrome-extension:";
+}
+
+/**
+ * Call a method registered in the background service worker's RPC table
+ */
+export async function callBackground<T>(
+  method: string,
+  ...args: unknown[]
+): Promise<T> {
+  const request: RpcRequest = { type: "RPC", method, args };
+  const response: RpcResponse | undefined =
+    await chrome.runtime.sendMessage(request);
+
+  if (!response) {
+    throw new Error(`No response from background for ${method}`);
+  }
+  if (!response.ok) {
+    throw new Error(response.error);
+  }
+  return response.result as T;
+}
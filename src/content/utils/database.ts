@@ -0,0 +1,159 @@
+/**
+ * IndexedDB access for data that outgrows chrome.storage.local.
+ *
+ * Only open the database from extension pages or the background service
+ * worker: a content script would get the visited site's IndexedDB instead
+ * of the extension's. Content scripts go through `backgroundRpc.ts`.
+ */
+
+const DB_NAME = "tower-of-babel";
+const DB_VERSION = 6;
+
+export const STORES = {
+  pageCache: "pageCache",
+  words: "words",
+  encounters: "encounters",
+  quizResults: "quizResults",
+  stats: "stats",
+  meta: "meta",
+  glossary: "glossary",
+  conjugations: "conjugations",
+  wordInsights: "wordInsights",
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create or upgrade object stores
+ */
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const pageCache = db.createObjectStore(STORES.pageCache, {
+      keyPath: "key",
+    });
+    pageCache.createIndex("lastAccessed", "lastAccessed");
+    pageCache.createIndex("url", "url");
+  }
+
+  if (oldVersion < 2) {
+    // Vocabulary, keyed by [language, wordId]
+    const words = db.createObjectStore(STORES.words, {
+      keyPath: ["language", "wordId"],
+    });
+    words.createIndex("language", "language");
+    words.createIndex("language_dueAt", ["language", "dueAt"]);
+    words.createIndex("language_timesEncountered", [
+      "language",
+      "timesEncountered",
+    ]);
+    words.createIndex("language_firstSeenDate", ["language", "firstSeenDate"]);
+
+    // One row per time a word was translated on a page
+    const encounters = db.createObjectStore(STORES.encounters, {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    encounters.createIndex("language_wordId", ["language", "wordId"]);
+    encounters.createIndex("date", "date");
+
+    // One row per quiz answer
+    const quizResults = db.createObjectStore(STORES.quizResults, {
+      keyPath: "id",
+      autoIncrement: true,
+    });
+    quizResults.createIndex("language_wordId", ["language", "wordId"]);
+    quizResults.createIndex("language_date", ["language", "date"]);
+
+    db.createObjectStore(STORES.stats, { keyPath: "language" });
+
+    // Flags such as completed migrations
+    db.createObjectStore(STORES.meta, { keyPath: "key" });
+  }
+
+  if (oldVersion < 3) {
+    // Learner-corrected translations, keyed by [language, source word]
+    const glossary = db.createObjectStore(STORES.glossary, {
+      keyPath: ["language", "source"],
+    });
+    glossary.createIndex("language", "language");
+  }
+
+  if (oldVersion < 4) {
+    // Generated conjugation tables, keyed by [language, verb lemma]
+    db.createObjectStore(STORES.conjugations, {
+      keyPath: ["language", "lemma"],
+    });
+  }
+
+  if (oldVersion < 6) {
+    // Generated definitions and related words, keyed by
+    // [language, sourceLanguage, sourceWord, word]: related words carry a
+    // translation into the source language, and the source word picks the
+    // meaning. Version 5 cached them without the source word, so that
+    // cache is dropped.
+    if (db.objectStoreNames.contains(STORES.wordInsights)) {
+      db.deleteObjectStore(STORES.wordInsights);
+    }
+    db.createObjectStore(STORES.wordInsights, {
+      keyPath: ["language", "sourceLanguage", "sourceWord", "word"],
+    });
+  }
+}
+
+/**
+ * Open the extension database (shared connection)
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      console.log(
+        `[Database] Upgrading from version ${event.oldVersion} to ${DB_VERSION}`
+      );
+      upgradeDatabase(request.result, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another context upgraded the schema; reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction commits
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,501 @@
+import type { SupportedLanguage } from "./translationConfig";
+
+/**
+ * Rule-based lemmatization: maps an inflected word ("running", "mangées")
+ * to the dictionary forms it may come from. The suffix rules over-generate
+ * on purpose; the lemma suggested by the Prompt API picks between them, and
+ * is used on its own for forms the rules do not cover. Without a suggestion
+ * a stricter set of rules derives one lemma.
+ */
+
+interface SuffixRule {
+  suffix: string;
+  replacements: string[]; // Endings that may replace the suffix
+}
+
+// Shortest stem a rule may leave, so "is" is not read as a plural of "i"
+const MIN_STEM_LENGTH = 2;
+
+// Letters a suggested lemma must share with the start of the word, unless
+// the rules or tables allow it ("running" and "run" share "run")
+const MIN_SHARED_STEM = 3;
+
+// Common irregular forms the suffix rules cannot reach
+const IRREGULAR_FORMS: Partial<
+  Record<SupportedLanguage, Record<string, string>>
+> = {
+  en: {
+    am: "be",
+    are: "be",
+    is: "be",
+    was: "be",
+    were: "be",
+    been: "be",
+    has: "have",
+    had: "have",
+    did: "do",
+    does: "do",
+    done: "do",
+    went: "go",
+    gone: "go",
+    ran: "run",
+    saw: "see",
+    seen: "see",
+    took: "take",
+    taken: "take",
+    made: "make",
+    came: "come",
+    gave: "give",
+    given: "give",
+    knew: "know",
+    known: "know",
+    thought: "think",
+    bought: "buy",
+    brought: "bring",
+    found: "find",
+    told: "tell",
+    said: "say",
+    ate: "eat",
+    eaten: "eat",
+    wrote: "write",
+    written: "write",
+    left: "leave",
+    felt: "feel",
+    kept: "keep",
+    slept: "sleep",
+    children: "child",
+    men: "man",
+    women: "woman",
+    people: "person",
+    feet: "foot",
+    teeth: "tooth",
+    mice: "mouse",
+    better: "good",
+    best: "good",
+    worse: "bad",
+    worst: "bad",
+  },
+  fr: {
+    suis: "être",
+    es: "être",
+    est: "être",
+    sommes: "être",
+    êtes: "être",
+    sont: "être",
+    était: "être",
+    été: "être",
+    ai: "avoir",
+    as: "avoir",
+    avons: "avoir",
+    avez: "avoir",
+    ont: "avoir",
+    avait: "avoir",
+    eu: "avoir",
+    vais: "aller",
+    va: "aller",
+    vont: "aller",
+    fait: "faire",
+    font: "faire",
+    peut: "pouvoir",
+    peuvent: "pouvoir",
+    veut: "vouloir",
+    veulent: "vouloir",
+    yeux: "œil",
+  },
+  es: {
+    soy: "ser",
+    eres: "ser",
+    es: "ser",
+    somos: "ser",
+    son: "ser",
+    era: "ser",
+    fue: "ser",
+    estoy: "estar",
+    está: "estar",
+    están: "estar",
+    tengo: "tener",
+    tiene: "tener",
+    tienen: "tener",
+    voy: "ir",
+    va: "ir",
+    van: "ir",
+    hago: "hacer",
+    hace: "hacer",
+    hizo: "hacer",
+    puede: "poder",
+    quiere: "querer",
+  },
+  de: {
+    bin: "sein",
+    bist: "sein",
+    ist: "sein",
+    sind: "sein",
+    seid: "sein",
+    war: "sein",
+    waren: "sein",
+    gewesen: "sein",
+    hat: "haben",
+    hatte: "haben",
+    gehabt: "haben",
+    wird: "werden",
+    wurde: "werden",
+    geworden: "werden",
+    ging: "gehen",
+    gegangen: "gehen",
+    kam: "kommen",
+    gekommen: "kommen",
+    sah: "sehen",
+    gesehen: "sehen",
+    läuft: "laufen",
+    gelaufen: "laufen",
+    isst: "essen",
+    gegessen: "essen",
+  },
+  it: {
+    sono: "essere",
+    sei: "essere",
+    è: "essere",
+    siamo: "essere",
+    era: "essere",
+    stato: "essere",
+    ho: "avere",
+    hai: "avere",
+    ha: "avere",
+    hanno: "avere",
+    vado: "andare",
+    va: "andare",
+    fatto: "fare",
+    fa: "fare",
+  },
+  pt: {
+    sou: "ser",
+    é: "ser",
+    somos: "ser",
+    são: "ser",
+    era: "ser",
+    foi: "ser",
+    estou: "estar",
+    está: "estar",
+    estão: "estar",
+    tenho: "ter",
+    tem: "ter",
+    têm: "ter",
+    vou: "ir",
+    vai: "ir",
+    vão: "ir",
+    faz: "fazer",
+    fez: "fazer",
+  },
+};
+
+// Every matching rule contributes candidates, so their order does not matter
+const SUFFIX_RULES: Partial<Record<SupportedLanguage, SuffixRule[]>> = {
+  en: [
+    { suffix: "ies", replacements: ["y", "ie"] },
+    { suffix: "ied", replacements: ["y"] },
+    { suffix: "ying", replacements: ["y", "ie"] },
+    { suffix: "ves", replacements: ["f", "fe"] },
+    { suffix: "ing", replacements: ["", "e"] },
+    { suffix: "es", replacements: ["", "e"] },
+    { suffix: "ed", replacements: ["", "e"] },
+    { suffix: "s", replacements: [""] },
+  ],
+  fr: [
+    { suffix: "aient", replacements: ["er", "ir", "re"] },
+    { suffix: "erons", replacements: ["er"] },
+    { suffix: "eront", replacements: ["er"] },
+    { suffix: "aux", replacements: ["al", "ail"] },
+    { suffix: "ées", replacements: ["er"] },
+    { suffix: "ons", replacements: ["er", "ir", "re"] },
+    { suffix: "ent", replacements: ["er", "ir", "re"] },
+    { suffix: "ais", replacements: ["er", "ir", "re"] },
+    { suffix: "ait", replacements: ["er", "ir", "re"] },
+    { suffix: "era", replacements: ["er"] },
+    { suffix: "ez", replacements: ["er", "ir", "re"] },
+    { suffix: "és", replacements: ["er"] },
+    { suffix: "ée", replacements: ["er"] },
+    { suffix: "es", replacements: ["", "e", "er"] },
+    { suffix: "é", replacements: ["er"] },
+    { suffix: "e", replacements: ["", "er"] },
+    { suffix: "s", replacements: [""] },
+    { suffix: "x", replacements: [""] },
+  ],
+  es: [
+    { suffix: "ando", replacements: ["ar"] },
+    { suffix: "iendo", replacements: ["er", "ir"] },
+    { suffix: "ábamos", replacements: ["ar"] },
+    { suffix: "aban", replacements: ["ar"] },
+    { suffix: "amos", replacements: ["ar"] },
+    { suffix: "emos", replacements: ["er"] },
+    { suffix: "imos", replacements: ["ir"] },
+    { suffix: "ado", replacements: ["ar"] },
+    { suffix: "ada", replacements: ["ar", "ado"] },
+    { suffix: "ido", replacements: ["er", "ir"] },
+    { suffix: "ida", replacements: ["er", "ir", "ido"] },
+    { suffix: "aba", replacements: ["ar"] },
+    { suffix: "ces", replacements: ["z"] },
+    { suffix: "an", replacements: ["ar"] },
+    { suffix: "en", replacements: ["er", "ir"] },
+    { suffix: "es", replacements: ["", "e"] },
+    { suffix: "as", replacements: ["a", "o", "ar"] },
+    { suffix: "os", replacements: ["o"] },
+    { suffix: "a", replacements: ["o", "ar"] },
+    { suffix: "s", replacements: [""] },
+  ],
+  de: [
+    { suffix: "ungen", replacements: ["ung"] },
+    { suffix: "test", replacements: ["en"] },
+    { suffix: "ten", replacements: ["en"] },
+    { suffix: "te", replacements: ["en"] },
+    { suffix: "est", replacements: ["en"] },
+    { suffix: "st", replacements: ["en"] },
+    { suffix: "et", replacements: ["en"] },
+    { suffix: "en", replacements: ["", "e", "en"] },
+    { suffix: "er", replacements: ["", "e"] },
+    { suffix: "es", replacements: ["", "e"] },
+    { suffix: "em", replacements: ["", "e"] },
+    { suffix: "e", replacements: ["", "en"] },
+    { suffix: "n", replacements: [""] },
+    { suffix: "s", replacements: [""] },
+    { suffix: "t", replacements: ["en"] },
+  ],
+  it: [
+    { suffix: "ando", replacements: ["are"] },
+    { suffix: "endo", replacements: ["ere", "ire"] },
+    { suffix: "iamo", replacements: ["are", "ere", "ire"] },
+    { suffix: "ato", replacements: ["are"] },
+    { suffix: "ata", replacements: ["are"] },
+    { suffix: "ati", replacements: ["are"] },
+    { suffix: "ate", replacements: ["are"] },
+    { suffix: "uto", replacements: ["ere"] },
+    { suffix: "ito", replacements: ["ire"] },
+    { suffix: "ano", replacements: ["are"] },
+    { suffix: "ono", replacements: ["ere", "ire"] },
+    { suffix: "i", replacements: ["o", "e", "are"] },
+    { suffix: "e", replacements: ["a", "o"] },
+    { suffix: "a", replacements: ["o", "are"] },
+  ],
+  pt: [
+    { suffix: "ando", replacements: ["ar"] },
+    { suffix: "endo", replacements: ["er"] },
+    { suffix: "indo", replacements: ["ir"] },
+    { suffix: "amos", replacements: ["ar"] },
+    { suffix: "emos", replacements: ["er"] },
+    { suffix: "imos", replacements: ["ir"] },
+    { suffix: "ões", replacements: ["ão"] },
+    { suffix: "ado", replacements: ["ar"] },
+    { suffix: "ada", replacements: ["ar", "ado"] },
+    { suffix: "ido", replacements: ["er", "ir"] },
+    { suffix: "ida", replacements: ["er", "ir", "ido"] },
+    { suffix: "am", replacements: ["ar"] },
+    { suffix: "em", replacements: ["er", "ir"] },
+    { suffix: "as", replacements: ["a", "o", "ar"] },
+    { suffix: "os", replacements: ["o"] },
+    { suffix: "es", replacements: ["", "e"] },
+    { suffix: "a", replacements: ["o", "ar"] },
+    { suffix: "s", replacements: [""] },
+  ],
+};
+
+// Rules for a lemma without the model's help, first match wins. They only
+// cover endings that rarely belong to the dictionary form itself
+const LEMMA_RULES: Partial<Record<SupportedLanguage, [RegExp, string][]>> = {
+  en: [
+    [/^(.{2,})ies$/, "$1y"],
+    [/^(.{2,})ied$/, "$1y"],
+    // "boxes" → "box", but "houses" → "house"
+    [/^(.+(?:ss|sh|ch|x|z))es$/, "$1"],
+    // Not "bus", "glass" or "this"
+    [/^(.{2,}[^siu'])s$/, "$1"],
+    // "running" → "run", but "falling" → "fall"
+    [/^(.+([^aeiouylsfz]))\2(?:ing|ed)$/, "$1"],
+    // "making" → "make", "used" → "use"
+    [/^([^aeiou]*[aeiou][^aeiouwxy])(?:ing|ed)$/, "$1e"],
+    // Not "need" or "agreed"
+    [/^(.{3,}[^e])(?:ing|ed)$/, "$1"],
+  ],
+};
+
+/**
+ * Whether a vocabulary entry is a multi-word phrase ("give up")
+ */
+export function isPhrase(text: string): boolean {
+  return /\s/.test(text.trim());
+}
+
+/**
+ * Strip diacritics, so the first letters of "été" and "être" compare equal
+ */
+function foldAccents(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+/**
+ * Length of the prefix two words share, ignoring accents
+ */
+function sharedPrefixLength(a: string, b: string): number {
+  const foldedA = foldAccents(a);
+  const foldedB = foldAccents(b);
+  let length = 0;
+  while (
+    length < foldedA.length &&
+    length < foldedB.length &&
+    foldedA[length] === foldedB[length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * The dictionary form the strict rules derive for a word, or the word
+ * itself if none applies
+ */
+function deriveLemma(lower: string, language: SupportedLanguage): string {
+  const rule = LEMMA_RULES[language]?.find(([pattern]) => pattern.test(lower));
+  return rule ? lower.replace(rule[0], rule[1]) : lower;
+}
+
+/**
+ * Every dictionary form the rules allow for a word, the word itself first
+ */
+export function getLemmaCandidates(
+  word: string,
+  language: SupportedLanguage
+): string[] {
+  const lower = word.toLowerCase();
+  const candidates = new Set([lower]);
+
+  const irregular = IRREGULAR_FORMS[language]?.[lower];
+  if (irregular) {
+    candidates.add(irregular);
+  }
+
+  for (const { suffix, replacements } of SUFFIX_RULES[language] || []) {
+    if (!lower.endsWith(suffix)) continue;
+
+    const stem = lower.slice(0, -suffix.length);
+    if (stem.length < MIN_STEM_LENGTH) continue;
+
+    for (const replacement of replacements) {
+      candidates.add(stem + replacement);
+    }
+
+    // English doubles a final consonant: "running" → "run"
+    if (language === "en" && /([^aeiou])\1$/.test(stem)) {
+      candidates.add(stem.slice(0, -1));
+    }
+
+    // German participles: "gemacht" → "machen"
+    if (language === "de" && stem.startsWith("ge")) {
+      for (const replacement of replacements) {
+        candidates.add(stem.slice(2) + replacement);
+      }
+    }
+  }
+
+  return [...candidates];
+}
+
+/**
+ * Dictionary form of a word. A lemma suggested by the model wins when the
+ * rules or tables allow it, and is trusted for forms the rules do not know
+ * as long as it shares a stem with the word: irregular forms are often
+ * words of their own too ("été" is also "summer", "left" also a side).
+ * Without a plausible suggestion irregular forms come from the tables, and
+ * other words from the strict rules ("houses" → "house"). A phrase ("gave
+ * up") is lemmatized word by word.
+ */
+export function lemmatize(
+  word: string,
+  language: SupportedLanguage,
+  modelLemma?: string
+): string {
+  const lower = word.trim().toLowerCase();
+
+  const words = lower.split(/\s+/);
+  if (words.length > 1) {
+    const suggested = modelLemma?.trim().split(/\s+/);
+    return words
+      .map((part, i) =>
+        lemmatize(
+          part,
+          language,
+          suggested?.length === words.length ? suggested[i] : undefined
+        )
+      )
+      .join(" ");
+  }
+
+  const candidates = getLemmaCandidates(lower, language);
+  const suggested = modelLemma?.trim().toLowerCase();
+
+  if (suggested) {
+    if (candidates.includes(suggested)) {
+      return suggested;
+    }
+    // A lemma in the other language or a whole phrase is a model mistake
+    const shared = sharedPrefixLength(suggested, lower);
+    if (
+      !/\s/.test(suggested) &&
+      shared >= Math.min(MIN_SHARED_STEM, suggested.length, lower.length)
+    ) {
+      return suggested;
+    }
+  }
+
+  return IRREGULAR_FORMS[language]?.[lower] ?? deriveLemma(lower, language);
+}
+
+/**
+ * Whether a word is the lemma itself or one of its inflected forms. For a
+ * phrase every word is compared with the lemma's word at the same place.
+ */
+export function isFormOf(
+  word: string,
+  lemma: string,
+  language: SupportedLanguage
+): boolean {
+  const words = word.trim().split(/\s+/);
+  const lemmaWords = lemma.trim().toLowerCase().split(/\s+/);
+
+  return (
+    words.length === lemmaWords.length &&
+    words.every((part, i) =>
+      getLemmaCandidates(part, language).includes(lemmaWords[i])
+    )
+  );
+}
+
+/**
+ * Forms of a lemma (word or phrase) found in a text, as written there
+ * (first seen first). The words of a phrase may only be separated by
+ * whitespace.
+ */
+export function findWordForms(
+  text: string,
+  lemma: string,
+  language: SupportedLanguage
+): string[] {
+  const length = lemma.trim().split(/\s+/).length;
+  const tokens = [...text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)];
+  const forms = new Set<string>();
+
+  for (let i = 0; i + length <= tokens.length; i++) {
+    const first = tokens[i];
+    const last = tokens[i + length - 1];
+    const start = first.index ?? 0;
+    const form = text.slice(start, (last.index ?? 0) + last[0].length);
+
+    const words = tokens.slice(i, i + length).map((token) => token[0]);
+
+    // Tokens joined by anything but whitespace are not a phrase
+    const isContiguous = words.join(" ") === form.replace(/\s+/g, " ");
+
+    if (isContiguous && isFormOf(form, lemma, language)) {
+      forms.add(form);
+    }
+  }
+
+  return [...forms];
+}
@@ -2,7 +2,10 @@ import {
   TranslationConfig,
   DENSITY_RATIOS,
   DifficultyLevel,
+  getLanguageCode,
+  getLanguageName,
 } from "./translationConfig";
+import { segmentWords } from "./segmenter";
 
 export async function isRewriterAvailable(): Promise<string> {
   try {
@@ -24,12 +27,16 @@ export async function createRewriter(
   onProgress?: (progress: number) => void
 ): Promise<any> {
   const options = {
-    sharedContext: `You are helping translate English content to ${config.activeLanguage} for language learners at the ${config.difficulty} level. Maintain context and meaning while choosing appropriate words to translate.`,
+    sharedContext: `You are helping translate ${getLanguageName(
+      config.sourceLanguage
+    )} content to ${getLanguageName(
+      config.activeLanguage
+    )} for language learners at the ${config.difficulty} level. Maintain context and meaning while choosing appropriate words to translate.`,
     tone: "as-is" as const,
     format: "plain-text" as const,
     length: "as-is" as const,
-    expectedInputLanguage: ["en"],
-    outputLanguage: "es",
+    expectedInputLanguage: [getLanguageCode(config.sourceLanguage)],
+    outputLanguage: getLanguageCode(config.activeLanguage),
     monitor(m: any) {
       m.addEventListener("downloadprogress", (e: any) => {
         const progress = (e.loaded / e.total) * 100;
@@ -57,7 +64,7 @@ export async function analyzeAndSelectWords(
   sentence: string,
   config: TranslationConfig
 ): Promise<string[]> {
-  const words = sentence.match(/\b[\w']+\b/g) || [];
+  const words = segmentWords(sentence, config.sourceLanguage);
 
   if (words.length === 0) return [];
 
@@ -255,7 +262,7 @@ export async function translateSentence(
     const translations = await translateWords(
       sentence,
       wordsToTranslate,
-      config.activeLanguage,
+      getLanguageName(config.activeLanguage),
       rewriter
     );
 
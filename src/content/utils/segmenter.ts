@@ -0,0 +1,155 @@
+import type { SupportedLanguage } from "./translationConfig";
+
+/**
+ * Abbreviations whose period does not end a sentence, lowercase and without
+ * the final period. Intl.Segmenter already keeps decimals, URLs and
+ * abbreviations followed by a lowercase word together; these are the ones
+ * usually followed by a capital ("Dr. Smith", "e.g. London").
+ */
+const ABBREVIATIONS: Partial<Record<SupportedLanguage, string[]>> = {
+  en: [
+    "mr",
+    "mrs",
+    "ms",
+    "dr",
+    "prof",
+    "st",
+    "jr",
+    "sr",
+    "vs",
+    "e.g",
+    "i.e",
+    "approx",
+    "fig",
+    "vol",
+    "gen",
+    "col",
+    "lt",
+    "sgt",
+    "rev",
+    "u.s",
+    "u.k",
+  ],
+  fr: ["m", "mm", "mme", "mlle", "dr", "pr", "st", "ste", "cf", "p. ex"],
+  es: ["sr", "sra", "srta", "dr", "dra", "ud", "uds", "d", "dña", "p. ej"],
+  de: ["hr", "fr", "dr", "prof", "z.b", "d.h", "u.a", "bzw", "vgl", "ca"],
+  it: ["sig", "sigg", "sig.ra", "dott", "dott.ssa", "prof", "ing", "avv"],
+  pt: ["sr", "sra", "dr", "dra", "prof", "profa", "p. ex", "ex"],
+};
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function getSegmenter(
+  language: SupportedLanguage,
+  granularity: "sentence" | "word"
+): Intl.Segmenter {
+  const key = `${language}:${granularity}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(language, { granularity });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/**
+ * Whether a sentence segment ends with an abbreviation or an initial
+ * ("J. R. R. Tolkien") rather than a full stop. A capital is only an initial
+ * when another initial or a name follows, and never a Roman numeral ("World
+ * War I. Then").
+ */
+function endsWithAbbreviation(
+  segment: string,
+  following: string,
+  language: SupportedLanguage
+): boolean {
+  const trimmed = segment.trimEnd();
+  if (!trimmed.endsWith(".")) {
+    return false;
+  }
+  const beforePeriod = trimmed.slice(0, -1);
+  if (/(?:^|\s)\p{Lu}$/u.test(beforePeriod)) {
+    const next = following.trimStart();
+    if (/^\p{Lu}\./u.test(next)) {
+      return true;
+    }
+    return !/[IVX]$/.test(beforePeriod) && /^\p{Lu}\p{Ll}/u.test(next);
+  }
+
+  const lower = beforePeriod.toLowerCase();
+  return (ABBREVIATIONS[language] || []).some((abbreviation) => {
+    // The abbreviation must be a whole word, not the end of one
+    const preceding = lower.charAt(lower.length - abbreviation.length - 1);
+    return lower.endsWith(abbreviation) && !/[\p{L}\p{N}]/u.test(preceding);
+  });
+}
+
+/**
+ * A sentence of a longer text, with its position in that text
+ */
+export interface SentenceSegment {
+  text: string; // Includes trailing whitespace
+  index: number;
+}
+
+/**
+ * Split text into sentences for a language, keeping abbreviations, initials,
+ * decimals and URLs inside their sentence
+ */
+export function segmentSentences(
+  text: string,
+  language: SupportedLanguage
+): SentenceSegment[] {
+  const sentences: SentenceSegment[] = [];
+  let pending: SentenceSegment | null = null;
+
+  for (const { segment, index } of getSegmenter(language, "sentence").segment(
+    text
+  )) {
+    const current: SentenceSegment = pending
+      ? { text: pending.text + segment, index: pending.index }
+      : { text: segment, index };
+
+    const following = text.slice(index + segment.length);
+    if (endsWithAbbreviation(current.text, following, language)) {
+      pending = current;
+    } else {
+      sentences.push(current);
+      pending = null;
+    }
+  }
+  if (pending) {
+    sentences.push(pending);
+  }
+
+  return sentences;
+}
+
+/**
+ * The words of a text, as the language splits them (no punctuation, numbers
+ * kept, no spaces needed between words)
+ */
+export function segmentWords(
+  text: string,
+  language: SupportedLanguage
+): string[] {
+  return Array.from(getSegmenter(language, "word").segment(text))
+    .filter(({ isWordLike }) => isWordLike)
+    .map(({ segment }) => segment);
+}
+
+/**
+ * Offsets in a text where a word starts or ends. Needed for languages
+ * written without spaces (Japanese, Chinese, Thai), where the characters on
+ * both sides of a word boundary are letters.
+ */
+export function getWordBoundaries(
+  text: string,
+  language: SupportedLanguage
+): Set<number> {
+  const boundaries = new Set<number>([text.length]);
+  for (const { index } of getSegmenter(language, "word").segment(text)) {
+    boundaries.add(index);
+  }
+  return boundaries;
+}
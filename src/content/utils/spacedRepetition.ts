@@ -0,0 +1,104 @@
+import type { ReviewGrade, WordData } from "./translationConfig";
+
+/**
+ * SM-2 style spaced-repetition scheduling for vocabulary words
+ */
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_REVIEW_HISTORY = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 quality score (0-5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Check whether two dates fall on the same calendar day
+ */
+function isSameDay(a: Date, b: Date): boolean {
+  return a.toDateString() === b.toDateString();
+}
+
+/**
+ * Apply a review grade to a word and compute its next due date
+ */
+export function scheduleReview(
+  word: WordData,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): WordData {
+  const quality = GRADE_QUALITY[grade];
+  const history = word.reviewHistory || [];
+  const lastReview = history[history.length - 1];
+
+  let easeFactor = word.easeFactor ?? DEFAULT_EASE_FACTOR;
+  let interval = word.interval ?? 0;
+  let repetitions = word.repetitions ?? 0;
+
+  // A word answered twice in one session (e.g. multiple choice + pronunciation)
+  // should not have its interval compounded; only a failure reschedules it
+  const reviewedToday = lastReview && isSameDay(new Date(lastReview.date), now);
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else if (!reviewedToday) {
+    repetitions += 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(interval * easeFactor);
+    }
+  }
+
+  if (!reviewedToday || quality < 3) {
+    easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+  }
+
+  const dueDate = new Date(now.getTime() + interval * DAY_MS).toISOString();
+
+  return {
+    ...word,
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate,
+    reviewHistory: [
+      ...history,
+      { date: now.toISOString(), grade, interval },
+    ].slice(-MAX_REVIEW_HISTORY),
+  };
+}
+
+/**
+ * Check if a word is due for review (never-reviewed words are always due)
+ */
+export function isDue(word: WordData, now: Date = new Date()): boolean {
+  if (!word.dueDate) {
+    return true;
+  }
+  return new Date(word.dueDate).getTime() <= now.getTime();
+}
+
+/**
+ * Order words for review: overdue words first (most overdue first),
+ * then never-reviewed words (most encountered first)
+ */
+export function compareForReview(a: WordData, b: WordData): number {
+  if (a.dueDate && b.dueDate) {
+    return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  }
+  if (a.dueDate) return -1;
+  if (b.dueDate) return 1;
+  return b.timesEncountered - a.timesEncountered;
+}
@@ -1,3 +1,6 @@
+import type { SupportedLanguage } from "./translationConfig";
+import { getWordBoundaries, segmentSentences } from "./segmenter";
+
 /**
  * Selectors for content we WANT to translate
  */
@@ -65,33 +68,6 @@ function shouldExclude(element: Element): boolean {
   return false;
 }
 
-/**
- * Get text nodes from an element, excluding child elements we don't want
- */
-function getTextNodesFromElement(element: Element): Text[] {
-  const textNodes: Text[] = [];
-  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
-    acceptNode: (node) => {
-      if (!node.textContent?.trim()) {
-        return NodeFilter.FILTER_REJECT;
-      }
-
-      if (node.parentElement && shouldExclude(node.parentElement)) {
-        return NodeFilter.FILTER_REJECT;
-      }
-
-      return NodeFilter.FILTER_ACCEPT;
-    },
-  });
-
-  let node;
-  while ((node = walker.nextNode())) {
-    textNodes.push(node as Text);
-  }
-
-  return textNodes;
-}
-
 /**
  * Get all relevant content elements from the page
  */
@@ -128,59 +104,341 @@ export function getContentElements(): Element[] {
 }
 
 /**
- * Get text nodes from specific elements
+ * Get content elements inside (or containing) newly added DOM subtrees
  */
-export function getTextNodes(elements: Element[]): Text[] {
-  const allTextNodes: Text[] = [];
+export function getContentElementsWithin(roots: Element[]): Element[] {
+  const elements = new Set<Element>();
+  const selector = INCLUDE_SELECTORS.join(", ");
 
-  elements.forEach((element) => {
-    const textNodes = getTextNodesFromElement(element);
-    allTextNodes.push(...textNodes);
+  const addIfContent = (el: Element) => {
+    if (!shouldExclude(el) && el.textContent?.trim()) {
+      elements.add(el);
+    }
+  };
+
+  roots.forEach((root) => {
+    // A node added inside an existing paragraph belongs to that paragraph,
+    // whose text not translated yet is picked up with it
+    const container = root.closest(selector);
+    if (container) {
+      addIfContent(container);
+      return;
+    }
+
+    root.querySelectorAll(selector).forEach(addIfContent);
   });
 
-  return allTextNodes;
+  return Array.from(elements);
 }
 
+const WORD_CHARACTER = /[\p{L}\p{N}\p{M}_]/u;
+
 /**
- * Sentence information with text node reference
+ * An occurrence of a word or phrase in a text
  */
-export interface SentenceInfo {
-  text: string;
+export interface WordMatch {
+  index: number;
+  text: string; // As written in the text (keeps its case)
+}
+
+/**
+ * Find a word or phrase as a whole word (case-insensitive). The words of a
+ * phrase may be separated by any whitespace, including line breaks. A match
+ * must start and end at a word edge: next to a character that is not a
+ * letter or digit (so accented scripts and "l'été" work), or at a boundary
+ * found by Intl.Segmenter for scripts written without spaces, where the
+ * neighbouring characters are letters too ("学生" in "私は学生です").
+ */
+export function findWordMatches(
+  text: string,
+  word: string,
+  language: SupportedLanguage
+): WordMatch[] {
+  const escaped = word
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  if (!escaped) {
+    return [];
+  }
+
+  let boundaries: Set<number> | null = null;
+  const isWordEdge = (offset: number) => {
+    if (
+      !WORD_CHARACTER.test(text.charAt(offset - 1)) ||
+      !WORD_CHARACTER.test(text.charAt(offset))
+    ) {
+      return true;
+    }
+    boundaries ??= getWordBoundaries(text, language);
+    return boundaries.has(offset);
+  };
+
+  const matches: WordMatch[] = [];
+  for (const match of text.matchAll(new RegExp(escaped, "giu"))) {
+    const index = match.index ?? 0;
+    if (isWordEdge(index) && isWordEdge(index + match[0].length)) {
+      matches.push({ index, text: match[0] });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replace every whole-word occurrence of a word or phrase in a text
+ */
+export function replaceWordMatches(
+  text: string,
+  word: string,
+  language: SupportedLanguage,
+  replacer: (match: string) => string
+): string {
+  let result = "";
+  let lastIndex = 0;
+  findWordMatches(text, word, language).forEach(({ index, text: match }) => {
+    result += text.slice(lastIndex, index) + replacer(match);
+    lastIndex = index + match.length;
+  });
+  return result + text.slice(lastIndex);
+}
+
+/**
+ * Part of a text run still held by one text node: the node's data is the
+ * run's text from `start` on
+ */
+interface TextSegment {
   node: Text;
-  startOffset: number;
-  endOffset: number;
+  start: number;
 }
 
 /**
- * Extract sentences from text nodes
+ * The text of a paragraph read as one string, across the inline elements
+ * (`<em>`, `<b>`, `<span>`) that split it into several text nodes. Text of
+ * excluded inline elements (links, code) is part of `text`, so sentences
+ * read as on the page, but has no segment and is never replaced.
+ * Offsets into `text` stay valid while parts of the run are replaced.
  */
-export function extractSentences(textNodes: Text[]): SentenceInfo[] {
-  const sentences: SentenceInfo[] = [];
+export interface TextRun {
+  text: string; // Text of the run when it was extracted
+  segments: TextSegment[]; // Replaceable parts not replaced yet, in order
+}
 
-  textNodes.forEach((node) => {
-    if (!node.textContent) return;
+/**
+ * Elements that start a new line, and so a new run, inside a content element
+ */
+const BLOCK_TAGS = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "ASIDE",
+  "BLOCKQUOTE",
+  "BR",
+  "DD",
+  "DIV",
+  "DL",
+  "DT",
+  "FIGCAPTION",
+  "FIGURE",
+  "FOOTER",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HEADER",
+  "HR",
+  "LI",
+  "MAIN",
+  "NAV",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "TD",
+  "TH",
+  "TR",
+  "UL",
+]);
 
-    const text = node.textContent;
-    // Match sentences ending with . ! ? or just text without punctuation
-    const sentenceRegex = /[^.!?]+[.!?]+(?:\s+|$)|[^.!?]+$/g;
-    const matches = text.matchAll(sentenceRegex);
+/**
+ * Elements whose text is not page text at all
+ */
+const HIDDEN_TAGS = new Set([
+  "NOSCRIPT",
+  "SCRIPT",
+  "SELECT",
+  "STYLE",
+  "TEMPLATE",
+  "TEXTAREA",
+]);
 
-    let currentOffset = 0;
+/**
+ * Elements inside a content element that are never replaced. Inline ones
+ * are still read as context.
+ */
+function isExcluded(element: Element): boolean {
+  return (
+    element.classList.contains("translated-word") ||
+    EXCLUDE_SELECTORS.some((selector) => element.matches(selector))
+  );
+}
+
+/**
+ * Build the text runs of content elements: one per paragraph, or per line
+ * when a paragraph holds line breaks or nested blocks
+ */
+export function getTextRuns(elements: Element[]): TextRun[] {
+  const runs: TextRun[] = [];
+  let current: TextRun = { text: "", segments: [] };
+
+  const finishRun = () => {
+    if (current.text.trim() && current.segments.length > 0) {
+      runs.push(current);
+    }
+    current = { text: "", segments: [] };
+  };
+
+  const walk = (parent: Node) => {
+    parent.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const text = child as Text;
+        if (text.data) {
+          current.segments.push({ node: text, start: current.text.length });
+          current.text += text.data;
+        }
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as Element;
+        if (HIDDEN_TAGS.has(element.tagName)) {
+          return;
+        }
+        const isBlock = BLOCK_TAGS.has(element.tagName);
+        if (isExcluded(element)) {
+          // Excluded blocks (code listings, asides) end the run unread
+          if (isBlock) {
+            finishRun();
+          } else {
+            current.text += element.textContent || "";
+          }
+        } else if (isBlock) {
+          finishRun();
+          walk(element);
+          finishRun();
+        } else {
+          walk(element);
+        }
+      }
+    });
+  };
+
+  elements.forEach((element) => {
+    walk(element);
+    finishRun();
+  });
+
+  return runs;
+}
+
+/**
+ * Replace the text between two offsets of a run with a node, splitting the
+ * text nodes at both ends. Returns false (and changes nothing) if part of
+ * the range was already replaced or the page changed the text since it was
+ * extracted.
+ */
+export function replaceRunRange(
+  run: TextRun,
+  start: number,
+  end: number,
+  replacement: Node
+): boolean {
+  const overlapping = run.segments.filter(
+    (segment) =>
+      segment.start < end && segment.start + segment.node.length > start
+  );
+  if (overlapping.length === 0) return false;
+
+  const first = overlapping[0];
+  const last = overlapping[overlapping.length - 1];
+  const isIntact = overlapping.every(
+    (segment, i) =>
+      segment.node.isConnected &&
+      segment.node.data ===
+        run.text.slice(segment.start, segment.start + segment.node.length) &&
+      (i === 0 ||
+        overlapping[i - 1].start + overlapping[i - 1].node.length ===
+          segment.start)
+  );
+  if (
+    !isIntact ||
+    first.start > start ||
+    last.start + last.node.length < end
+  ) {
+    return false;
+  }
+
+  // Split off the text before and after the range
+  const head =
+    start > first.start
+      ? first.node.splitText(start - first.start)
+      : first.node;
+  const lastNode = first === last ? head : last.node;
+  const lastStart = first === last ? start : last.start;
+  const tail =
+    end < lastStart + lastNode.length
+      ? lastNode.splitText(end - lastStart)
+      : null;
+
+  // A range crossing inline elements takes the formatting of its start
+  head.parentNode?.insertBefore(replacement, head);
+  head.remove();
+  overlapping.slice(1).forEach((segment) => segment.node.remove());
+
+  const segments = run.segments.filter(
+    (segment) => !overlapping.includes(segment)
+  );
+  if (head !== first.node) {
+    segments.push({ node: first.node, start: first.start });
+  }
+  if (tail) {
+    segments.push({ node: tail, start: end });
+  }
+  run.segments = segments.sort((a, b) => a.start - b.start);
 
-    for (const match of matches) {
-      const sentenceText = match[0].trim();
+  return true;
+}
 
+/**
+ * Sentence information with the text run it is part of
+ */
+export interface SentenceInfo {
+  text: string;
+  run: TextRun;
+  startOffset: number; // Offsets into run.text
+  endOffset: number;
+}
+
+/**
+ * Extract sentences from text runs. A sentence may span several text nodes
+ * and the inline elements between them.
+ */
+export function extractSentences(
+  runs: TextRun[],
+  language: SupportedLanguage
+): SentenceInfo[] {
+  const sentences: SentenceInfo[] = [];
+
+  runs.forEach((run) => {
+    segmentSentences(run.text, language).forEach(({ text, index }) => {
+      const sentenceText = text.trim();
       if (sentenceText.length > 0) {
         sentences.push({
           text: sentenceText,
-          node: node,
-          startOffset: match.index || currentOffset,
-          endOffset: (match.index || currentOffset) + match[0].length,
+          run,
+          startOffset: index,
+          endOffset: index + text.length,
         });
       }
-
-      currentOffset = (match.index || currentOffset) + match[0].length;
-    }
+    });
   });
 
   return sentences;
@@ -251,7 +509,11 @@ export class ProgressiveTextLoader {
   }
 
   observe(elements: Element[]) {
-    elements.forEach((el) => this.observer.observe(el));
+    elements.forEach((el) => {
+      // Observed again once loaded means it has new text to load
+      this.processedElements.delete(el);
+      this.observer.observe(el);
+    });
   }
 
   disconnect() {
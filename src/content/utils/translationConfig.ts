@@ -1,7 +1,13 @@
 export type DifficultyLevel = "beginner" | "intermediate" | "advanced";
 export type DensityLevel = "low" | "medium" | "high";
-export type SupportedLanguage = "french" | "spanish";
-
+export type PartOfSpeech = "noun" | "verb" | "adjective" | "adverb" | "other";
+export type GrammaticalGender = "masculine" | "feminine" | "neuter";
+export type Inflection =
+  | "plural"
+  | "past"
+  | "participle"
+  | "comparative"
+  | "superlative";
 /**
  * Language information for supported languages
  */
@@ -9,32 +15,156 @@ export interface LanguageInfo {
   code: string; // BCP 47 code for Translator API
   displayName: string; // For UI display
   flag: string; // Emoji flag
+  ttsLocale: string; // Locale for speech synthesis
+  ruby?: "furigana" | "pinyin"; // Reading shown above translated words
+  direction?: "rtl"; // Written right to left (left to right otherwise)
+  genders?: GrammaticalGender[]; // Noun genders, for languages that have them
+  prefixedArticle?: boolean; // Article written joined to the noun ("הבית")
+  tenses?: string[]; // Conjugation panel tenses, in the language's own terms
 }
 
 /**
- * Supported languages configuration
+ * Registry of supported languages, keyed by BCP 47 code. Any entry can be the
+ * learner's source (native) or target language; adding a language here makes
+ * it available to every service and to onboarding.
  */
-export const SUPPORTED_LANGUAGES: Record<SupportedLanguage, LanguageInfo> = {
-  french: {
+const LANGUAGE_REGISTRY = {
+  en: {
+    code: "en",
+    displayName: "English",
+    flag: "🇬🇧",
+    ttsLocale: "en-US",
+    tenses: ["present simple", "past simple", "present perfect", "future"],
+  },
+  fr: {
     code: "fr",
     displayName: "French",
     flag: "🇫🇷",
+    ttsLocale: "fr-FR",
+    genders: ["masculine", "feminine"],
+    tenses: [
+      "présent",
+      "passé composé",
+      "imparfait",
+      "futur simple",
+      "subjonctif présent",
+    ],
   },
-  spanish: {
+  es: {
     code: "es",
     displayName: "Spanish",
     flag: "🇪🇸",
+    ttsLocale: "es-ES",
+    genders: ["masculine", "feminine"],
+    tenses: [
+      "presente",
+      "pretérito indefinido",
+      "pretérito imperfecto",
+      "futuro simple",
+      "presente de subjuntivo",
+    ],
+  },
+  de: {
+    code: "de",
+    displayName: "German",
+    flag: "🇩🇪",
+    ttsLocale: "de-DE",
+    genders: ["masculine", "feminine", "neuter"],
+    tenses: ["Präsens", "Perfekt", "Präteritum", "Futur I", "Konjunktiv II"],
+  },
+  it: {
+    code: "it",
+    displayName: "Italian",
+    flag: "🇮🇹",
+    ttsLocale: "it-IT",
+    genders: ["masculine", "feminine"],
+    tenses: [
+      "presente",
+      "passato prossimo",
+      "imperfetto",
+      "futuro semplice",
+      "congiuntivo presente",
+    ],
+  },
+  pt: {
+    code: "pt",
+    displayName: "Portuguese",
+    flag: "🇵🇹",
+    ttsLocale: "pt-PT",
+    genders: ["masculine", "feminine"],
+    tenses: [
+      "presente",
+      "pretérito perfeito",
+      "pretérito imperfeito",
+      "futuro do presente",
+      "presente do conjuntivo",
+    ],
+  },
+  ja: {
+    code: "ja",
+    displayName: "Japanese",
+    flag: "🇯🇵",
+    ttsLocale: "ja-JP",
+    ruby: "furigana",
+  },
+  zh: {
+    code: "zh",
+    displayName: "Chinese",
+    flag: "🇨🇳",
+    ttsLocale: "zh-CN",
+    ruby: "pinyin",
+  },
+  th: {
+    code: "th",
+    displayName: "Thai",
+    flag: "🇹🇭",
+    ttsLocale: "th-TH",
   },
+  ar: {
+    code: "ar",
+    displayName: "Arabic",
+    flag: "🇸🇦",
+    ttsLocale: "ar-SA",
+    direction: "rtl",
+    genders: ["masculine", "feminine"],
+    prefixedArticle: true,
+  },
+  he: {
+    code: "he",
+    displayName: "Hebrew",
+    flag: "🇮🇱",
+    ttsLocale: "he-IL",
+    direction: "rtl",
+    genders: ["masculine", "feminine"],
+    prefixedArticle: true,
+  },
+} satisfies Record<string, LanguageInfo>;
+
+export type SupportedLanguage = keyof typeof LANGUAGE_REGISTRY;
+
+/**
+ * Supported languages configuration
+ */
+export const SUPPORTED_LANGUAGES: Record<SupportedLanguage, LanguageInfo> =
+  LANGUAGE_REGISTRY;
+
+// Language keys used before the registry was keyed by BCP 47 code
+export const LEGACY_LANGUAGE_KEYS: Record<string, SupportedLanguage> = {
+  french: "fr",
+  spanish: "es",
 };
 
 /**
  * Translation configuration
  */
 export interface TranslationConfig {
-  activeLanguage: SupportedLanguage;
+  sourceLanguage: SupportedLanguage; // Language the learner reads (native)
+  activeLanguage: SupportedLanguage; // Language being learned (target)
   difficulty: DifficultyLevel;
   density: DensityLevel;
   translationEnabled: boolean;
+  showReadings: boolean; // Furigana/pinyin above translated words
+  colorByGender: boolean; // Underline translated nouns in their gender's color
 }
 
 // Density mapping: determines how many words to translate
@@ -45,14 +175,42 @@ export const DENSITY_RATIOS: Record<DensityLevel, number> = {
   high: 5, // 1 out of 5 words (~20% translation rate)
 };
 
+// Parts of speech the model may answer with, for JSON schema enums
+export const PARTS_OF_SPEECH: PartOfSpeech[] = [
+  "noun",
+  "verb",
+  "adjective",
+  "adverb",
+  "other",
+];
+
 // Default configuration
 export const DEFAULT_CONFIG: TranslationConfig = {
-  activeLanguage: "french",
+  sourceLanguage: "en",
+  activeLanguage: "fr",
   difficulty: "beginner",
   density: "high",
   translationEnabled: true,
+  showReadings: true,
+  colorByGender: false,
 };
 
+/**
+ * Per-site rules, keyed by origin (e.g. "https://mail.google.com")
+ * - always: translate whenever translation is enabled (the default)
+ * - never: never translate on this site
+ * - ask: ask on each visit before translating
+ */
+export type SitePolicyMode = "always" | "never" | "ask";
+
+export interface SitePolicy {
+  mode: SitePolicyMode;
+  difficulty?: DifficultyLevel; // Overrides the global difficulty on this site
+  density?: DensityLevel; // Overrides the global density on this site
+}
+
+export const DEFAULT_SITE_POLICY: SitePolicy = { mode: "always" };
+
 /**
  * Storage schema for language-specific data
  */
@@ -62,12 +220,52 @@ export interface LanguageStats {
   lastActiveDate: string;
 }
 
+/**
+ * Outcome of a single quiz answer, used by the spaced-repetition scheduler
+ */
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewRecord {
+  date: string;
+  grade: ReviewGrade;
+  interval: number; // Interval (in days) scheduled after this review
+}
+
+// Learner-set word states (unset for words still being learned):
+// known words were known before, mastered ones were learned here and
+// ignored ones are never translated
+export type WordState = "known" | "mastered" | "ignored";
+
+/**
+ * Grammar of a translation's dictionary form
+ */
+export interface WordGrammar {
+  partOfSpeech: PartOfSpeech;
+  gender?: GrammaticalGender; // Nouns of languages with genders only
+  article?: string; // Definite article ("la", "der", "l'")
+  plural?: string; // Plural of a noun ("maisons")
+}
+
 export interface WordData {
-  english: string;
-  translated: string;
+  source: string; // Word in the source language
+  target: string; // Word in the target language
+  sourceLanguage: SupportedLanguage;
   timesEncountered: number;
   firstSeenDate: string;
   lastSeenDate: string;
+  difficulty?: DifficultyLevel; // Difficulty setting when first seen
+  forms?: string[]; // Inflected forms seen on pages; source is the lemma
+  isPhrase?: boolean; // Phrasal verb or idiom ("give up") rather than a word
+  grammar?: WordGrammar; // Of the target word, as given when first seen
+  state?: WordState;
+  updatedAt?: string; // Last edit or review, for last-writer-wins sync
+  syncedCounts?: Record<string, number>; // Encounters merged from other devices
+  // Spaced-repetition scheduling (absent until the word is first reviewed)
+  easeFactor?: number;
+  interval?: number; // Days until the next review
+  repetitions?: number; // Consecutive successful reviews
+  dueDate?: string;
+  reviewHistory?: ReviewRecord[];
 }
 
 export interface LanguageData {
@@ -80,7 +278,10 @@ export async function getTranslationConfig(): Promise<TranslationConfig> {
   if (typeof chrome !== "undefined" && chrome.storage) {
     try {
       const result = await chrome.storage.local.get("config");
-      return result.config || DEFAULT_CONFIG;
+      if (!result.config) {
+        return DEFAULT_CONFIG;
+      }
+      return normalizeConfig(result.config);
     } catch (error) {
       console.warn("Failed to load translation config from storage:", error);
       return DEFAULT_CONFIG;
@@ -114,3 +315,129 @@ export function getLanguageInfo(language: SupportedLanguage): LanguageInfo {
 export function getLanguageCode(language: SupportedLanguage): string {
   return SUPPORTED_LANGUAGES[language].code;
 }
+
+// Get language display name (e.g. "French")
+export function getLanguageName(language: SupportedLanguage): string {
+  return SUPPORTED_LANGUAGES[language].displayName;
+}
+
+// Get locale for speech synthesis (e.g. "fr-FR")
+export function getTtsLocale(language: SupportedLanguage): string {
+  return SUPPORTED_LANGUAGES[language].ttsLocale;
+}
+
+// Put a definite article in front of a noun, without a space after an
+// elided article ("l'arbre") or one written joined to the noun
+export function withArticle(
+  noun: string,
+  article: string | undefined,
+  language: SupportedLanguage
+): string {
+  if (!article) {
+    return noun;
+  }
+  const isJoined =
+    SUPPORTED_LANGUAGES[language].prefixedArticle || /['’]$/.test(article);
+  return isJoined ? `${article}${noun}` : `${article} ${noun}`;
+}
+
+// Get the writing direction of a language, for `dir` attributes
+export function getTextDirection(language: SupportedLanguage): "ltr" | "rtl" {
+  return SUPPORTED_LANGUAGES[language].direction ?? "ltr";
+}
+
+// Wrap text in Unicode isolates (FSI … PDI) so a word written in the other
+// direction keeps the quotes and punctuation around it in place
+export function isolateText(text: string): string {
+  return `\u2068${text}\u2069`;
+}
+
+// Check if a BCP 47 tag (e.g. "fr-CA" from a lang attribute) refers to a
+// registry language, comparing primary subtags only
+export function matchesLanguage(
+  tag: string,
+  language: SupportedLanguage
+): boolean {
+  const primary = (code: string) => code.trim().toLowerCase().split(/[-_]/)[0];
+  return primary(tag) === primary(getLanguageCode(language));
+}
+
+// Find the registry language of a BCP 47 tag ("pt-BR" → "pt"), if any
+export function getLanguageFromTag(tag: string): SupportedLanguage | null {
+  const languages = Object.keys(SUPPORTED_LANGUAGES) as SupportedLanguage[];
+  return languages.find((language) => matchesLanguage(tag, language)) ?? null;
+}
+
+// Check if a value is a key of the language registry
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+  // Own keys only: "toString" or "constructor" are not languages
+  return (
+    typeof value === "string" && Object.hasOwn(SUPPORTED_LANGUAGES, value)
+  );
+}
+
+// Resolve a stored language value (including legacy keys) to a registry key
+export function normalizeLanguage(
+  value: unknown,
+  fallback: SupportedLanguage = DEFAULT_CONFIG.activeLanguage
+): SupportedLanguage {
+  if (isSupportedLanguage(value)) {
+    return value;
+  }
+  if (typeof value === "string" && Object.hasOwn(LEGACY_LANGUAGE_KEYS, value)) {
+    return LEGACY_LANGUAGE_KEYS[value];
+  }
+  return fallback;
+}
+
+// Fill in defaults and resolve language keys for a stored config
+export function normalizeConfig(
+  stored: Partial<TranslationConfig> = {}
+): TranslationConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...stored,
+    sourceLanguage: normalizeLanguage(
+      stored.sourceLanguage,
+      DEFAULT_CONFIG.sourceLanguage
+    ),
+    activeLanguage: normalizeLanguage(stored.activeLanguage),
+  };
+}
+
+// Apply a site's difficulty/density overrides on top of the global config
+export function applySitePolicy(
+  config: TranslationConfig,
+  policy: SitePolicy | null
+): TranslationConfig {
+  if (!policy) {
+    return config;
+  }
+  return {
+    ...config,
+    difficulty: policy.difficulty ?? config.difficulty,
+    density: policy.density ?? config.density,
+  };
+}
+
+// Get the origin a site policy is stored under, or null for pages the
+// content script doesn't run on (chrome://, file://, ...)
+export function getSiteOrigin(url: string | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === "https:" || protocol === "http:" ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// Key under which a translator model download is recorded (e.g. "en-fr")
+export function getLanguagePairKey(
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage
+): string {
+  return `${sourceLanguage}-${targetLanguage}`;
+}
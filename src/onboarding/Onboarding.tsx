@@ -1,48 +1,134 @@
 import { useState, useEffect } from "react";
 import {
   SUPPORTED_LANGUAGES,
+  DEFAULT_CONFIG,
   type SupportedLanguage,
   getLanguageCode,
+  getLanguageInfo,
+  isSupportedLanguage,
+  normalizeLanguage,
 } from "../content/utils/translationConfig";
 import { storageService } from "../content/services/StorageService";
 
-type Screen = "welcome" | "download-prompt" | "download-french" | "download-spanish" | "download-rewriter" | "success";
+type Screen =
+  | "welcome"
+  | "download-prompt"
+  | "download-languages"
+  | "download-rewriter"
+  | "success";
 
 interface DownloadProgress {
   prompt: number;
-  french: number;
-  spanish: number;
   rewriter: number;
+  languages: Partial<Record<SupportedLanguage, number>>;
 }
 
-type DownloadStep = "prompt" | "french" | "spanish" | "rewriter";
-
 export default function Onboarding() {
   const [screen, setScreen] = useState<Screen>("welcome");
   const [selectedLanguage, setSelectedLanguage] =
-    useState<SupportedLanguage>("french");
+    useState<SupportedLanguage>(DEFAULT_CONFIG.activeLanguage);
+  const [sourceLanguage, setSourceLanguage] = useState<SupportedLanguage>(
+    DEFAULT_CONFIG.sourceLanguage
+  );
   const [progress, setProgress] = useState<DownloadProgress>({
     prompt: 0,
-    french: 0,
-    spanish: 0,
     rewriter: 0,
+    languages: {},
   });
+  // Registry languages the Translator API can provide (source → language)
+  const [availableLanguages, setAvailableLanguages] = useState<
+    SupportedLanguage[]
+  >([]);
+  const [downloadingLanguage, setDownloadingLanguage] =
+    useState<SupportedLanguage | null>(null);
   const [status, setStatus] = useState("Initializing...");
   const [error, setError] = useState<string | null>(null);
   const [countdown, setCountdown] = useState(3);
 
-  // Check if language is pre-selected via URL parameter
+  // Check if languages are pre-selected via URL parameters, otherwise
+  // keep the source language from an earlier setup
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const languageParam = params.get("language");
-    if (
-      languageParam &&
-      (languageParam === "french" || languageParam === "spanish")
-    ) {
-      setSelectedLanguage(languageParam as SupportedLanguage);
+    const sourceParam = params.get("source");
+    if (languageParam) {
+      setSelectedLanguage(normalizeLanguage(languageParam));
+    }
+    if (sourceParam) {
+      setSourceLanguage(
+        normalizeLanguage(sourceParam, DEFAULT_CONFIG.sourceLanguage)
+      );
+    } else {
+      storageService.getSourceLanguage().then(setSourceLanguage);
     }
   }, []);
 
+  const handleSourceLanguageChange = (language: SupportedLanguage) => {
+    setSourceLanguage(language);
+    // A language can't be learned from itself
+    if (language === selectedLanguage) {
+      const fallback = Object.keys(SUPPORTED_LANGUAGES)
+        .filter(isSupportedLanguage)
+        .find((key) => key !== language);
+      if (fallback) {
+        setSelectedLanguage(fallback);
+      }
+    }
+  };
+
+  const setLanguageProgress = (
+    language: SupportedLanguage,
+    value: number
+  ) => {
+    setProgress((prev) => ({
+      ...prev,
+      languages: { ...prev.languages, [language]: value },
+    }));
+  };
+
+  /**
+   * Ask the Translator API which registry languages can be downloaded
+   */
+  const checkAvailableLanguages = async (
+    downloadedLanguages: SupportedLanguage[]
+  ) => {
+    const languages = Object.keys(SUPPORTED_LANGUAGES)
+      .filter(isSupportedLanguage)
+      .filter((language) => language !== sourceLanguage);
+
+    const results = await Promise.all(
+      languages.map(async (language) => {
+        try {
+          const availability = await (self as any).Translator.availability({
+            sourceLanguage: getLanguageCode(sourceLanguage),
+            targetLanguage: getLanguageCode(language),
+          });
+          console.log(
+            `[Onboarding] ${language} Translator availability:`,
+            availability
+          );
+          return { language, availability };
+        } catch (err) {
+          console.error(`Error checking ${language} availability:`, err);
+          return { language, availability: "unavailable" };
+        }
+      })
+    );
+
+    const available = results
+      .filter(({ availability }) => availability !== "unavailable")
+      .map(({ language }) => language);
+    setAvailableLanguages(available);
+
+    available.forEach((language) => {
+      if (downloadedLanguages.includes(language)) {
+        setLanguageProgress(language, 100);
+      }
+    });
+
+    return available;
+  };
+
   const handleGetStarted = async () => {
     // Check if APIs are available
     if (!("LanguageModel" in self) || !("Translator" in self) || !("Rewriter" in self)) {
@@ -54,25 +140,30 @@ export default function Onboarding() {
 
     // Check what's already downloaded
     const isPromptDownloaded = await storageService.isPromptModelDownloaded();
-    const downloadedLanguages = await storageService.getDownloadedLanguages();
+    const downloadedLanguages = await storageService.getDownloadedLanguages(
+      sourceLanguage
+    );
 
     if (isPromptDownloaded) {
       setProgress((prev) => ({ ...prev, prompt: 100 }));
     }
-    if (downloadedLanguages.includes("french")) {
-      setProgress((prev) => ({ ...prev, french: 100 }));
-    }
-    if (downloadedLanguages.includes("spanish")) {
-      setProgress((prev) => ({ ...prev, spanish: 100 }));
+
+    const available = await checkAvailableLanguages(downloadedLanguages);
+
+    if (!available.includes(selectedLanguage)) {
+      setError(
+        `${getLanguageInfo(sourceLanguage).displayName} → ${
+          getLanguageInfo(selectedLanguage).displayName
+        } translation is not available in this version of Chrome. Please choose another language.`
+      );
+      return;
     }
 
     // Start with first incomplete step
     if (!isPromptDownloaded) {
       setScreen("download-prompt");
-    } else if (!downloadedLanguages.includes("french")) {
-      setScreen("download-french");
-    } else if (!downloadedLanguages.includes("spanish")) {
-      setScreen("download-spanish");
+    } else if (!downloadedLanguages.includes(selectedLanguage)) {
+      setScreen("download-languages");
     } else {
       setScreen("download-rewriter");
     }
@@ -109,6 +200,21 @@ export default function Onboarding() {
       // Just let it be garbage collected naturally
       // languageModel.destroy();
 
+      // The language detector model is small; fetch it alongside so pages can
+      // be checked for the source language. Pages fall back to `lang`
+      // attributes if it isn't available, so failures aren't fatal.
+      try {
+        if ("LanguageDetector" in self) {
+          await (self as any).LanguageDetector.create();
+          console.log("[Onboarding] LanguageDetector ready");
+        }
+      } catch (detectorError) {
+        console.warn(
+          "[Onboarding] LanguageDetector download failed:",
+          detectorError
+        );
+      }
+
       // Mark Prompt API as downloaded
       await storageService.setPromptModelDownloaded();
       console.log("[Onboarding] ✅ Prompt API downloaded and marked as complete");
@@ -122,91 +228,63 @@ export default function Onboarding() {
     }
   };
 
-  const downloadFrenchModel = async () => {
-    try {
-      console.log("[Onboarding] Starting French translator download...");
-
-      // Check availability first
-      const availability = await (self as any).Translator.availability({
-        sourceLanguage: "en",
-        targetLanguage: "fr",
-      });
-      console.log("[Onboarding] French Translator availability:", availability);
-
-      setStatus("Downloading French translation engine...");
+  const downloadLanguageModel = async (language: SupportedLanguage) => {
+    const { displayName } = getLanguageInfo(language);
+    const targetLanguage = getLanguageCode(language);
+    const sourceLanguageCode = getLanguageCode(sourceLanguage);
 
-      const frenchTranslator = await (self as any).Translator.create({
-        sourceLanguage: "en",
-        targetLanguage: "fr",
-        monitor(m: any) {
-          m.addEventListener("downloadprogress", (e: any) => {
-            const progressValue = (e.loaded / e.total) * 100;
-            console.log(`[Onboarding] French translator download progress: ${progressValue.toFixed(1)}%`);
-            setProgress((prev) => ({ ...prev, french: progressValue }));
-          });
-        },
-      });
-
-      console.log("[Onboarding] French Translator created successfully:", frenchTranslator);
-      setProgress((prev) => ({ ...prev, french: 100 }));
-
-      // Don't destroy - this would remove the downloaded model from cache
-      // frenchTranslator.destroy();
-
-      // Mark as downloaded
-      await storageService.setLanguageDownloaded("french");
-      console.log("[Onboarding] ✅ French translator downloaded and marked as complete");
-
-      setStatus("French translator downloaded! Click Next to continue.");
-      // Don't auto-advance - let user click Next
-    } catch (err) {
-      console.error("Error downloading French translator:", err);
-      setError(err instanceof Error ? err.message : "Unknown error occurred");
-      setStatus("Download failed");
-    }
-  };
-
-  const downloadSpanishModel = async () => {
     try {
-      console.log("[Onboarding] Starting Spanish translator download...");
+      console.log(`[Onboarding] Starting ${displayName} translator download...`);
+      setDownloadingLanguage(language);
 
       // Check availability first
       const availability = await (self as any).Translator.availability({
-        sourceLanguage: "en",
-        targetLanguage: "es",
+        sourceLanguage: sourceLanguageCode,
+        targetLanguage,
       });
-      console.log("[Onboarding] Spanish Translator availability:", availability);
+      console.log(
+        `[Onboarding] ${displayName} Translator availability:`,
+        availability
+      );
 
-      setStatus("Downloading Spanish translation engine...");
+      setStatus(`Downloading ${displayName} translation engine...`);
 
-      const spanishTranslator = await (self as any).Translator.create({
-        sourceLanguage: "en",
-        targetLanguage: "es",
+      const translator = await (self as any).Translator.create({
+        sourceLanguage: sourceLanguageCode,
+        targetLanguage,
         monitor(m: any) {
           m.addEventListener("downloadprogress", (e: any) => {
             const progressValue = (e.loaded / e.total) * 100;
-            console.log(`[Onboarding] Spanish translator download progress: ${progressValue.toFixed(1)}%`);
-            setProgress((prev) => ({ ...prev, spanish: progressValue }));
+            console.log(
+              `[Onboarding] ${displayName} translator download progress: ${progressValue.toFixed(1)}%`
+            );
+            setLanguageProgress(language, progressValue);
           });
         },
       });
 
-      console.log("[Onboarding] Spanish Translator created successfully:", spanishTranslator);
-      setProgress((prev) => ({ ...prev, spanish: 100 }));
+      console.log(
+        `[Onboarding] ${displayName} Translator created successfully:`,
+        translator
+      );
+      setLanguageProgress(language, 100);
 
       // Don't destroy - this would remove the downloaded model from cache
-      // spanishTranslator.destroy();
+      // translator.destroy();
 
       // Mark as downloaded
-      await storageService.setLanguageDownloaded("spanish");
-      console.log("[Onboarding] ✅ Spanish translator downloaded and marked as complete");
+      await storageService.setLanguageDownloaded(language, sourceLanguage);
+      console.log(
+        `[Onboarding] ✅ ${displayName} translator downloaded and marked as complete`
+      );
 
-      setStatus("Spanish translator downloaded! Click Next to continue.");
-      // Don't auto-advance - let user click Next
+      setStatus(`${displayName} translator downloaded!`);
     } catch (err) {
-      console.error("Error downloading Spanish translator:", err);
+      console.error(`Error downloading ${displayName} translator:`, err);
       setError(err instanceof Error ? err.message : "Unknown error occurred");
       setStatus("Download failed");
+    } finally {
+      setDownloadingLanguage(null);
     }
   };
 
@@ -251,6 +329,7 @@ export default function Onboarding() {
         config: {
           ...(existingConfig.config || {}),
           activeLanguage: selectedLanguage,
+          sourceLanguage,
           difficulty: "beginner",
           density: "high",
           translationEnabled: true,
@@ -292,9 +371,8 @@ export default function Onboarding() {
     }
   }, [screen, countdown]);
 
-  // Calculate overall progress
-  const overallProgress = Math.round(
-    (progress.prompt + progress.french + progress.spanish) / 3
+  const downloadedLanguages = availableLanguages.filter(
+    (language) => progress.languages[language] === 100
   );
 
   return (
@@ -307,25 +385,51 @@ export default function Onboarding() {
             Learn new languages naturally while browsing the web
           </p>
 
+          {/* Source Language Selection */}
+          <div className="language-selection">
+            <h3>Which language do you speak?</h3>
+            <p className="language-note">
+              Words on pages in this language will be translated for you
+            </p>
+            <select
+              value={sourceLanguage}
+              onChange={(e) =>
+                handleSourceLanguageChange(e.target.value as SupportedLanguage)
+              }
+              className="source-language-select"
+            >
+              {Object.entries(SUPPORTED_LANGUAGES).map(([key, info]) => (
+                <option key={key} value={key}>
+                  {info.flag} {info.displayName}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Language Selection */}
           <div className="language-selection">
             <h3>Which language do you want to start with?</h3>
             <p className="language-note">
-              We'll download all necessary AI models (4 downloads total)
+              We'll download the AI models and a translator for this language.
+              You can add more languages later.
             </p>
             <div className="language-buttons">
-              {Object.entries(SUPPORTED_LANGUAGES).map(([key, info]) => (
-                <button
-                  key={key}
-                  className={`language-btn ${
-                    selectedLanguage === key ? "selected" : ""
-                  }`}
-                  onClick={() => setSelectedLanguage(key as SupportedLanguage)}
-                >
-                  <span className="language-flag">{info.flag}</span>
-                  <span className="language-name">{info.displayName}</span>
-                </button>
-              ))}
+              {Object.entries(SUPPORTED_LANGUAGES)
+                .filter(([key]) => key !== sourceLanguage)
+                .map(([key, info]) => (
+                  <button
+                    key={key}
+                    className={`language-btn ${
+                      selectedLanguage === key ? "selected" : ""
+                    }`}
+                    onClick={() =>
+                      setSelectedLanguage(key as SupportedLanguage)
+                    }
+                  >
+                    <span className="language-flag">{info.flag}</span>
+                    <span className="language-name">{info.displayName}</span>
+                  </button>
+                ))}
             </div>
           </div>
 
@@ -364,7 +468,7 @@ export default function Onboarding() {
           <div className="icon">⚡</div>
           <h1>Download Word Selection AI</h1>
           <p className="subtitle">
-            Step 1 of 4: This AI intelligently selects words for you to learn
+            Step 1 of 3: This AI intelligently selects words for you to learn
           </p>
 
           {!error && (
@@ -393,8 +497,11 @@ export default function Onboarding() {
           )}
 
           {!error && progress.prompt === 100 && (
-            <button onClick={() => setScreen("download-french")} className="primary-btn">
-              Next: Download French
+            <button
+              onClick={() => setScreen("download-languages")}
+              className="primary-btn"
+            >
+              Next: Download Translators
             </button>
           )}
 
@@ -415,97 +522,59 @@ export default function Onboarding() {
         </div>
       )}
 
-      {screen === "download-french" && (
+      {screen === "download-languages" && (
         <div className="screen">
-          <div className="icon">🇫🇷</div>
-          <h1>Download French Translator</h1>
+          <div className="icon">{getLanguageInfo(selectedLanguage).flag}</div>
+          <h1>Download Translators</h1>
           <p className="subtitle">
-            Step 2 of 4: French translation model
+            Step 2 of 3: Download{" "}
+            {getLanguageInfo(selectedLanguage).displayName}, plus any other
+            language you want to learn
           </p>
 
           {!error && (
             <div className="progress-container">
-              <div className="progress-item">
-                <div className="progress-header">
-                  <span>🇫🇷 French Translation</span>
-                  <span>{Math.round(progress.french)}%</span>
-                </div>
-                <div className="progress-bar">
-                  <div
-                    className="progress-fill"
-                    style={{ width: `${progress.french}%` }}
-                  />
-                </div>
-              </div>
+              {availableLanguages.map((language) => {
+                const info = getLanguageInfo(language);
+                const value = progress.languages[language] || 0;
+                return (
+                  <div className="progress-item" key={language}>
+                    <div className="progress-header">
+                      <span>
+                        {info.flag} {info.displayName} Translation
+                      </span>
+                      {value === 0 && downloadingLanguage !== language ? (
+                        <button
+                          onClick={() => downloadLanguageModel(language)}
+                          disabled={downloadingLanguage !== null}
+                          className="download-btn"
+                        >
+                          Download
+                        </button>
+                      ) : (
+                        <span>{Math.round(value)}%</span>
+                      )}
+                    </div>
+                    <div className="progress-bar">
+                      <div
+                        className="progress-fill"
+                        style={{ width: `${value}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           )}
 
           <p className={`status ${error ? "error" : ""}`}>{status}</p>
 
-          {!error && progress.french === 0 && (
-            <button onClick={downloadFrenchModel} className="primary-btn">
-              Download French
-            </button>
-          )}
-
-          {!error && progress.french === 100 && (
-            <button onClick={() => setScreen("download-spanish")} className="primary-btn">
-              Next: Download Spanish
-            </button>
-          )}
-
-          {error && (
-            <div className="error-box">
-              <p>{error}</p>
-              <button
-                onClick={() => {
-                  setError(null);
-                  setScreen("download-prompt");
-                }}
-                className="retry-btn"
-              >
-                Go Back
-              </button>
-            </div>
-          )}
-        </div>
-      )}
-
-      {screen === "download-spanish" && (
-        <div className="screen">
-          <div className="icon">🇪🇸</div>
-          <h1>Download Spanish Translator</h1>
-          <p className="subtitle">
-            Step 3 of 4: Spanish translation model
-          </p>
-
-          {!error && (
-            <div className="progress-container">
-              <div className="progress-item">
-                <div className="progress-header">
-                  <span>🇪🇸 Spanish Translation</span>
-                  <span>{Math.round(progress.spanish)}%</span>
-                </div>
-                <div className="progress-bar">
-                  <div
-                    className="progress-fill"
-                    style={{ width: `${progress.spanish}%` }}
-                  />
-                </div>
-              </div>
-            </div>
-          )}
-
-          <p className={`status ${error ? "error" : ""}`}>{status}</p>
-
-          {!error && progress.spanish === 0 && (
-            <button onClick={downloadSpanishModel} className="primary-btn">
-              Download Spanish
-            </button>
-          )}
-
-          {!error && progress.spanish === 100 && (
-            <button onClick={() => setScreen("download-rewriter")} className="primary-btn">
+          {!error && downloadedLanguages.includes(selectedLanguage) && (
+            <button
+              onClick={() => setScreen("download-rewriter")}
+              disabled={downloadingLanguage !== null}
+              className="primary-btn"
+            >
               Next: Download Rewriter
             </button>
           )}
@@ -516,7 +585,7 @@ export default function Onboarding() {
               <button
                 onClick={() => {
                   setError(null);
-                  setScreen("download-french");
+                  setScreen("download-prompt");
                 }}
                 className="retry-btn"
               >
@@ -532,7 +601,7 @@ export default function Onboarding() {
           <div className="icon">✍️</div>
           <h1>Download Text Rewriter</h1>
           <p className="subtitle">
-            Step 4 of 4: AI-powered text simplification and rewriting
+            Step 3 of 3: AI-powered text simplification and rewriting
           </p>
 
           {!error && (
@@ -570,7 +639,7 @@ export default function Onboarding() {
               <button
                 onClick={() => {
                   setError(null);
-                  setScreen("download-spanish");
+                  setScreen("download-languages");
                 }}
                 className="retry-btn"
               >
@@ -585,17 +654,24 @@ export default function Onboarding() {
         <div className="screen">
           <div className="icon success">✓</div>
           <h1>You're All Set!</h1>
-          <p className="subtitle">You can now learn French and Spanish!</p>
+          <p className="subtitle">
+            You can now learn{" "}
+            {downloadedLanguages
+              .map((language) => getLanguageInfo(language).displayName)
+              .join(", ")}
+            !
+          </p>
 
           <div className="success-languages">
-            <div className="success-language">
-              <span className="success-flag">🇫🇷</span>
-              <span className="success-name">French</span>
-            </div>
-            <div className="success-language">
-              <span className="success-flag">🇪🇸</span>
-              <span className="success-name">Spanish</span>
-            </div>
+            {downloadedLanguages.map((language) => {
+              const info = getLanguageInfo(language);
+              return (
+                <div className="success-language" key={language}>
+                  <span className="success-flag">{info.flag}</span>
+                  <span className="success-name">{info.displayName}</span>
+                </div>
+              );
+            })}
           </div>
 
           <div className="tip">
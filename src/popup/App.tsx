@@ -1,12 +1,16 @@
 import { useState, useEffect } from "react";
 import {
   SUPPORTED_LANGUAGES,
+  DEFAULT_CONFIG,
+  normalizeConfig,
   type SupportedLanguage,
   type LanguageStats,
 } from "../content/utils/translationConfig";
 import { storageService } from "../content/services/StorageService";
 import { MixedQuizView } from "./components/MixedQuizView";
 import { SettingsView } from "./components/SettingsView";
+import { SitePolicyCard } from "./components/SitePolicyCard";
+import { SyncStatusIndicator } from "./components/SyncStatusIndicator";
 import { Button } from "../components/ui/button";
 import {
   Globe,
@@ -16,12 +20,14 @@ import {
   FileText,
   Brain,
   Settings,
+  Library,
 } from "lucide-react";
 
 interface StorageState {
   onboardingComplete: boolean;
   translationEnabled: boolean;
   activeLanguage: SupportedLanguage;
+  sourceLanguage: SupportedLanguage;
 }
 
 function App() {
@@ -29,8 +35,12 @@ function App() {
   const [state, setState] = useState<StorageState>({
     onboardingComplete: false,
     translationEnabled: true,
-    activeLanguage: "french",
+    activeLanguage: DEFAULT_CONFIG.activeLanguage,
+    sourceLanguage: DEFAULT_CONFIG.sourceLanguage,
   });
+  const [downloadedLanguages, setDownloadedLanguages] = useState<
+    SupportedLanguage[]
+  >([]);
   const [stats, setStats] = useState<LanguageStats>({
     totalWordsEncountered: 0,
     totalPagesTranslated: 0,
@@ -38,33 +48,38 @@ function App() {
   });
   const [showQuiz, setShowQuiz] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [windowId, setWindowId] = useState<number>();
 
   useEffect(() => {
     loadState();
+    chrome.windows.getCurrent().then((current) => setWindowId(current.id));
   }, []);
 
   const loadState = async () => {
     try {
       const result = await chrome.storage.local.get(["config", "system"]);
 
-      const config = result.config || {};
+      const config = normalizeConfig(result.config);
       const system = result.system || {};
 
-      const activeLanguage: SupportedLanguage =
-        config.activeLanguage || "french";
-      const translationEnabled = config.translationEnabled !== false;
+      const { activeLanguage, sourceLanguage, translationEnabled } = config;
       const onboardingComplete = system.onboardingComplete || false;
 
       setState({
         onboardingComplete,
         translationEnabled,
         activeLanguage,
+        sourceLanguage,
       });
 
       // Load stats for active language
       const languageStats = await storageService.getStats(activeLanguage);
       setStats(languageStats);
 
+      setDownloadedLanguages(
+        await storageService.getDownloadedLanguages(sourceLanguage)
+      );
+
       // If onboarding not complete, redirect to onboarding
       if (!onboardingComplete) {
         chrome.tabs.create({
@@ -104,7 +119,29 @@ function App() {
     }
   };
 
+  const handleOpenVocabulary = async () => {
+    if (windowId === undefined) return;
+    try {
+      // Must run straight from the click: sidePanel.open needs a user gesture
+      await chrome.sidePanel.open({ windowId });
+      window.close();
+    } catch (error) {
+      console.error("Error opening vocabulary side panel:", error);
+    }
+  };
+
   const handleLanguageChange = async (language: SupportedLanguage) => {
+    // Languages without a downloaded translator go through onboarding first
+    if (!downloadedLanguages.includes(language)) {
+      chrome.tabs.create({
+        url: chrome.runtime.getURL(
+          `src/onboarding/index.html?source=${state.sourceLanguage}&language=${language}`
+        ),
+      });
+      window.close();
+      return;
+    }
+
     try {
       console.log(`Switching to ${language}...`);
 
@@ -174,6 +211,7 @@ function App() {
             className="w-8 h-8"
           />
           <h1 className="text-lg font-bold text-gray-900">Tower of Babel</h1>
+          <SyncStatusIndicator />
         </div>
       </div>
 
@@ -190,11 +228,16 @@ function App() {
             }
             className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-sm font-medium text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {Object.entries(SUPPORTED_LANGUAGES).map(([key, info]) => (
-              <option key={key} value={key}>
-                {info.flag} {info.displayName}
-              </option>
-            ))}
+            {Object.entries(SUPPORTED_LANGUAGES)
+              .filter(([key]) => key !== state.sourceLanguage)
+              .map(([key, info]) => (
+                <option key={key} value={key}>
+                  {info.flag} {info.displayName}
+                  {downloadedLanguages.includes(key as SupportedLanguage)
+                    ? ""
+                    : " (download)"}
+                </option>
+              ))}
           </select>
         </div>
 
@@ -237,6 +280,9 @@ function App() {
           </div>
         </div>
 
+        {/* Site Policy Card */}
+        <SitePolicyCard />
+
         {/* Stats Card */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
@@ -274,6 +320,14 @@ function App() {
             <Brain className="w-5 h-5" />
             Practice Quiz
           </Button>
+          <Button
+            onClick={handleOpenVocabulary}
+            variant="outline"
+            className="w-full gap-2 h-11"
+          >
+            <Library className="w-5 h-5" />
+            My Vocabulary
+          </Button>
           <Button
             onClick={() => setShowSettings(true)}
             variant="outline"
@@ -15,16 +15,26 @@ import { quizService } from "../../content/services/QuizService";
 import { pronunciationService } from "../../content/services/PronunciationService";
 import { storageService } from "../../content/services/StorageService";
 import { speak } from "../../content/utils/tts";
-import type { SupportedLanguage } from "../../content/utils/translationConfig";
+import {
+  getLanguageName,
+  getTextDirection,
+  getTtsLocale,
+  isolateText,
+  type SupportedLanguage,
+  type ReviewGrade,
+} from "../../content/utils/translationConfig";
 
 interface QuizQuestion {
-  type: "multipleChoice" | "pronunciation";
+  type: "multipleChoice" | "cloze" | "pronunciation";
   question: string;
+  sentence?: string; // Cloze sentence with the word blanked out
   options?: string[];
   correctAnswer: string;
   correctIndex?: number;
   translatedWord?: string;
-  englishWord: string;
+  sourceWord: string;
+  sourceLanguage: SupportedLanguage;
+  wordId: string;
 }
 
 interface MixedQuizViewProps {
@@ -60,8 +70,11 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
   const generateMixedQuiz = async () => {
     setIsLoading(true);
     try {
-      // Get all words for the language
-      const words = await storageService.getWords(language);
+      // Get all words for the language, and the learner's corrections
+      const [words, glossary] = await Promise.all([
+        storageService.getWords(language),
+        storageService.getGlossary(language),
+      ]);
       const wordEntries = Object.entries(words);
 
       if (wordEntries.length === 0) {
@@ -74,40 +87,93 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
       await quizService.initialize();
       await pronunciationService.initialize();
 
-      // Select random words (max 5 words = 10 questions)
+      // Select the words most in need of review (max 5 words = 10 questions)
       const numWords = Math.min(5, wordEntries.length);
-      const selectedWords = shuffleArray(wordEntries).slice(0, numWords);
+      const selectedWords = await storageService.getDueWords(
+        language,
+        numWords
+      );
+
+      // Top up with the words coming due soonest if not enough are due;
+      // known, mastered and ignored words stay out of the quiz
+      if (selectedWords.length < numWords) {
+        const selectedIds = new Set(selectedWords.map(([wordId]) => wordId));
+        const upcoming = wordEntries
+          .filter(([wordId, word]) => !selectedIds.has(wordId) && !word.state)
+          .sort(
+            ([, a], [, b]) =>
+              new Date(a.dueDate || 0).getTime() -
+              new Date(b.dueDate || 0).getTime()
+          );
+        selectedWords.push(
+          ...upcoming.slice(0, numWords - selectedWords.length)
+        );
+      }
 
       // Generate questions for each word (2 questions per word)
       const allQuestions: QuizQuestion[] = [];
 
-      for (const [wordId, wordData] of selectedWords) {
-        // Question 1: Multiple Choice
-        const mcQuestion = await quizService.generateMultipleChoiceQuestion(
-          wordData.english,
-          wordData.translated,
-          language
+      for (const [wordId, storedWord] of selectedWords) {
+        // The correction of this sense beats whatever translation was stored
+        const wordData = {
+          ...storedWord,
+          target: glossary[wordId]?.target ?? storedWord.target,
+        };
+
+        // Question 1: Cloze from a sentence the learner read, falling back
+        // to multiple choice for words without one
+        const clozeQuestion = await generateClozeForWord(
+          wordId,
+          wordData.source,
+          wordData.target,
+          wordData.sourceLanguage
         );
 
-        allQuestions.push({
-          type: "multipleChoice",
-          question: mcQuestion.question,
-          options: mcQuestion.options,
-          correctAnswer: mcQuestion.correctAnswer,
-          correctIndex: mcQuestion.correctIndex,
-          englishWord: wordData.english,
-          translatedWord: wordData.translated,
-        });
+        if (clozeQuestion) {
+          allQuestions.push({
+            type: "cloze",
+            question: clozeQuestion.question,
+            sentence: clozeQuestion.sentence,
+            options: clozeQuestion.options,
+            correctAnswer: clozeQuestion.correctAnswer,
+            correctIndex: clozeQuestion.correctIndex,
+            sourceWord: wordData.source,
+            translatedWord: wordData.target,
+            sourceLanguage: wordData.sourceLanguage,
+            wordId,
+          });
+        } else {
+          const mcQuestion = await quizService.generateMultipleChoiceQuestion(
+            wordData.source,
+            wordData.target,
+            language,
+            wordData.sourceLanguage
+          );
+
+          allQuestions.push({
+            type: "multipleChoice",
+            question: mcQuestion.question,
+            options: mcQuestion.options,
+            correctAnswer: mcQuestion.correctAnswer,
+            correctIndex: mcQuestion.correctIndex,
+            sourceWord: wordData.source,
+            translatedWord: wordData.target,
+            sourceLanguage: wordData.sourceLanguage,
+            wordId,
+          });
+        }
 
         // Question 2: Pronunciation
         allQuestions.push({
           type: "pronunciation",
-          question: `Say the word "${wordData.translated}" in ${
-            language === "french" ? "French" : "Spanish"
-          }`,
-          correctAnswer: wordData.translated,
-          translatedWord: wordData.translated,
-          englishWord: wordData.english,
+          question: `Say the word "${isolateText(
+            wordData.target
+          )}" in ${getLanguageName(language)}`,
+          correctAnswer: wordData.target,
+          translatedWord: wordData.target,
+          sourceWord: wordData.source,
+          sourceLanguage: wordData.sourceLanguage,
+          wordId,
         });
       }
 
@@ -121,6 +187,39 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
     }
   };
 
+  const generateClozeForWord = async (
+    wordId: string,
+    sourceWord: string,
+    targetWord: string,
+    sourceLanguage: SupportedLanguage
+  ) => {
+    const encounters = await storageService.getWordEncounters(
+      language,
+      wordId
+    );
+
+    // Most recent sentence first
+    for (const encounter of encounters) {
+      if (!encounter.sentence) continue;
+
+      // The sentence holds the word as inflected there, so the blank and
+      // the answer use the forms seen on the page
+      const { form } = encounter;
+      const isInflected = !!form && form !== sourceWord.toLowerCase();
+      const cloze = await quizService.generateClozeQuestion(
+        encounter.sentence,
+        isInflected ? form : sourceWord,
+        isInflected ? encounter.targetForm ?? targetWord : targetWord,
+        language,
+        sourceLanguage
+      );
+      if (cloze) {
+        return cloze;
+      }
+    }
+    return null;
+  };
+
   const shuffleArray = <T,>(array: T[]): T[] => {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
@@ -130,6 +229,10 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
     return shuffled;
   };
 
+  const recordReview = (question: QuizQuestion, grade: ReviewGrade) => {
+    storageService.recordReview(language, question.wordId, grade);
+  };
+
   const handleMultipleChoiceAnswer = (index: number) => {
     if (showAnswer) return;
 
@@ -137,9 +240,11 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
     setShowAnswer(true);
 
     const currentQuestion = questions[currentQuestionIndex];
-    if (index === currentQuestion.correctIndex) {
+    const isCorrect = index === currentQuestion.correctIndex;
+    if (isCorrect) {
       setScore(score + 1);
     }
+    recordReview(currentQuestion, isCorrect ? "good" : "again");
   };
 
   const handleStartRecording = async () => {
@@ -171,6 +276,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
       if (result.isCorrect) {
         setScore(score + 1);
       }
+      recordReview(currentQuestion, result.isCorrect ? "good" : "hard");
     } catch (error) {
       console.error("Failed to stop recording:", error);
     }
@@ -193,6 +299,8 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
 
   const handleShowAnswer = () => {
     setShowAnswer(true);
+    // Revealing the answer counts as not remembering the word
+    recordReview(questions[currentQuestionIndex], "again");
   };
 
   const handleRestart = () => {
@@ -211,7 +319,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
 
     setIsSpeaking(true);
     try {
-      const langCode = language === "french" ? "fr-FR" : "es-ES";
+      const langCode = getTtsLocale(language);
       // For both question types, speak the translated word (target language)
       const wordToSpeak =
         currentQuestion.translatedWord || currentQuestion.correctAnswer;
@@ -246,7 +354,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
           </p>
         </div>
         <Button onClick={onBack} variant="outline" className="gap-2">
-          <ArrowLeft className="w-4 h-4" />
+          <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
           Back
         </Button>
       </div>
@@ -271,7 +379,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
             Try Again
           </Button>
           <Button onClick={onBack} variant="outline" className="flex-1 gap-2">
-            <ArrowLeft className="w-4 h-4" />
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
             Back
           </Button>
         </div>
@@ -281,17 +389,26 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
 
   const currentQuestion = questions[currentQuestionIndex];
 
+  // Options are target words for a cloze and source words otherwise
+  const optionLanguage =
+    currentQuestion.type === "cloze"
+      ? language
+      : currentQuestion.sourceLanguage;
+
   return (
-    <div className="space-y-4 p-4 min-h-[400px]">
+    <div
+      className="space-y-4 p-4 min-h-[400px]"
+      dir={getTextDirection(language)}
+    >
       {/* Header */}
       <div className="flex items-center justify-between">
         <Button
           onClick={onBack}
           variant="ghost"
           size="sm"
-          className="gap-1.5 -ml-2"
+          className="gap-1.5 -ms-2"
         >
-          <ArrowLeft className="w-4 h-4" />
+          <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
           Back
         </Button>
         <div className="text-sm font-medium text-gray-600">
@@ -305,9 +422,13 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
       {/* Question */}
       <div className="bg-blue-50 rounded-lg p-4">
         <div className="flex items-start gap-3">
+          {/* Hearing the word would give away a cloze answer */}
           <button
             onClick={handleListen}
-            disabled={isSpeaking}
+            disabled={
+              isSpeaking ||
+              (currentQuestion.type === "cloze" && !showAnswer)
+            }
             className="flex-shrink-0 mt-1 p-1.5 rounded-full hover:bg-blue-100 transition-colors disabled:opacity-50"
             title="Listen to pronunciation"
           >
@@ -318,20 +439,27 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
             />
           </button>
           <div className="flex-1">
-            <p className="text-lg font-semibold text-gray-900">
+            <p className="text-lg font-semibold text-gray-900" dir="auto">
               {currentQuestion.question}
             </p>
-            {currentQuestion.englishWord && (
-              <p className="text-sm text-gray-600 mt-1">
-                Word: {currentQuestion.englishWord}
+            {currentQuestion.type === "cloze" ? (
+              <p
+                className="text-sm text-gray-700 italic mt-1"
+                dir={getTextDirection(currentQuestion.sourceLanguage)}
+              >
+                "{currentQuestion.sentence}"
+              </p>
+            ) : currentQuestion.sourceWord && (
+              <p className="text-sm text-gray-600 mt-1" dir="auto">
+                Word: <bdi>{currentQuestion.sourceWord}</bdi>
               </p>
             )}
           </div>
         </div>
       </div>
 
-      {/* Multiple Choice Question */}
-      {currentQuestion.type === "multipleChoice" && (
+      {/* Multiple Choice and Cloze Questions */}
+      {currentQuestion.type !== "pronunciation" && (
         <div className="space-y-2">
           {currentQuestion.options?.map((option, index) => {
             const isSelected = selectedAnswer === index;
@@ -339,7 +467,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
             const showFeedback = showAnswer;
 
             let buttonClass =
-              "w-full justify-start text-left h-auto py-3 px-4 ";
+              "w-full justify-start text-start h-auto py-3 px-4 ";
             if (showFeedback) {
               if (isCorrect) {
                 buttonClass += "bg-green-100 border-green-500 text-green-900";
@@ -357,7 +485,7 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
                 className={buttonClass}
               >
                 <div className="flex items-center justify-between w-full">
-                  <span>{option}</span>
+                  <span dir={getTextDirection(optionLanguage)}>{option}</span>
                   {showFeedback && isCorrect && (
                     <CheckCircle2 className="w-5 h-5 text-green-600" />
                   )}
@@ -416,8 +544,8 @@ export function MixedQuizView({ language, onBack }: MixedQuizViewProps) {
                   >
                     {pronunciationResult.isCorrect ? "Correct!" : "Incorrect"}
                   </p>
-                  <p className="text-sm text-gray-700">
-                    You said: "{pronunciationResult.transcription}"
+                  <p className="text-sm text-gray-700" dir="auto">
+                    You said: "<bdi>{pronunciationResult.transcription}</bdi>"
                   </p>
                   <p className="text-sm text-gray-600">
                     {pronunciationResult.feedback}
@@ -2,9 +2,13 @@ import { useState, useEffect } from "react";
 import { Button } from "../../components/ui/button";
 import { ArrowLeft, Check } from "lucide-react";
 import { storageService } from "../../content/services/StorageService";
-import type {
-  DifficultyLevel,
-  DensityLevel,
+import { VocabularyTransferCard } from "./VocabularyTransferCard";
+import {
+  SUPPORTED_LANGUAGES,
+  DEFAULT_CONFIG,
+  type DifficultyLevel,
+  type DensityLevel,
+  type SupportedLanguage,
 } from "../../content/utils/translationConfig";
 
 interface SettingsViewProps {
@@ -58,6 +62,20 @@ const DENSITY_OPTIONS: {
 export function SettingsView({ onBack }: SettingsViewProps) {
   const [difficulty, setDifficulty] = useState<DifficultyLevel>("beginner");
   const [density, setDensity] = useState<DensityLevel>("high");
+  const [sourceLanguage, setSourceLanguage] = useState<SupportedLanguage>(
+    DEFAULT_CONFIG.sourceLanguage
+  );
+  const [activeLanguage, setActiveLanguage] = useState<SupportedLanguage>(
+    DEFAULT_CONFIG.activeLanguage
+  );
+  const [initialSourceLanguage, setInitialSourceLanguage] =
+    useState<SupportedLanguage>(DEFAULT_CONFIG.sourceLanguage);
+  const [showReadings, setShowReadings] = useState(
+    DEFAULT_CONFIG.showReadings
+  );
+  const [colorByGender, setColorByGender] = useState(
+    DEFAULT_CONFIG.colorByGender
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -68,12 +86,14 @@ export function SettingsView({ onBack }: SettingsViewProps) {
   const loadSettings = async () => {
     setIsLoading(true);
     try {
-      const [currentDifficulty, currentDensity] = await Promise.all([
-        storageService.getDifficulty(),
-        storageService.getDensity(),
-      ]);
-      setDifficulty(currentDifficulty);
-      setDensity(currentDensity);
+      const config = await storageService.getConfig();
+      setDifficulty(config.difficulty);
+      setDensity(config.density);
+      setSourceLanguage(config.sourceLanguage);
+      setInitialSourceLanguage(config.sourceLanguage);
+      setActiveLanguage(config.activeLanguage);
+      setShowReadings(config.showReadings);
+      setColorByGender(config.colorByGender);
     } catch (error) {
       console.error("Error loading settings:", error);
     } finally {
@@ -84,11 +104,42 @@ export function SettingsView({ onBack }: SettingsViewProps) {
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await Promise.all([
-        storageService.setDifficulty(difficulty),
-        storageService.setDensity(density),
-      ]);
-      console.log("Settings saved:", { difficulty, density });
+      const sourceChanged = sourceLanguage !== initialSourceLanguage;
+
+      // A new source language needs its own translator for the current
+      // target language, which onboarding downloads before switching
+      if (
+        sourceChanged &&
+        !(await storageService.isLanguageDownloaded(
+          activeLanguage,
+          sourceLanguage
+        ))
+      ) {
+        await storageService.updateConfig({
+          difficulty,
+          density,
+          showReadings,
+          colorByGender,
+        });
+        chrome.tabs.create({
+          url: chrome.runtime.getURL(
+            `src/onboarding/index.html?source=${sourceLanguage}&language=${activeLanguage}`
+          ),
+        });
+        window.close();
+        return;
+      }
+
+      // One write: each setter reads and rewrites the whole config, so
+      // setters run side by side would lose each other's changes
+      await storageService.updateConfig({
+        difficulty,
+        density,
+        showReadings,
+        colorByGender,
+        sourceLanguage,
+      });
+      console.log("Settings saved:", { difficulty, density, sourceLanguage });
 
       // Notify content scripts about settings change
       chrome.runtime.sendMessage({
@@ -97,6 +148,15 @@ export function SettingsView({ onBack }: SettingsViewProps) {
         density,
       });
 
+      // Switching the source language re-initializes the translators,
+      // same as switching the target language
+      if (sourceChanged) {
+        chrome.runtime.sendMessage({
+          type: "LANGUAGE_CHANGED",
+          language: activeLanguage,
+        });
+      }
+
       // Go back after successful save
       setTimeout(() => {
         onBack();
@@ -138,6 +198,32 @@ export function SettingsView({ onBack }: SettingsViewProps) {
       </div>
 
       <div className="p-4 space-y-4">
+        {/* Source Language Settings */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <label className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3 block">
+            I Speak
+          </label>
+          <select
+            value={sourceLanguage}
+            onChange={(e) =>
+              setSourceLanguage(e.target.value as SupportedLanguage)
+            }
+            className="w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-sm font-medium text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Object.entries(SUPPORTED_LANGUAGES)
+              .filter(([key]) => key !== activeLanguage)
+              .map(([key, info]) => (
+                <option key={key} value={key}>
+                  {info.flag} {info.displayName}
+                </option>
+              ))}
+          </select>
+          <p className="text-xs text-gray-600 mt-2">
+            Pages in this language get words translated into the language
+            you are learning
+          </p>
+        </div>
+
         {/* Difficulty Settings */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
           <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
@@ -198,6 +284,68 @@ export function SettingsView({ onBack }: SettingsViewProps) {
           </div>
         </div>
 
+        {/* Reading aids, for target languages written with characters */}
+        {SUPPORTED_LANGUAGES[activeLanguage].ruby && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
+              Readings
+            </h3>
+            <button
+              onClick={() => setShowReadings(!showReadings)}
+              className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+                showReadings
+                  ? "border-blue-500 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <div className="text-left">
+                <p className="text-sm font-semibold text-gray-900">
+                  Show {SUPPORTED_LANGUAGES[activeLanguage].ruby}
+                </p>
+                <p className="text-xs text-gray-600">
+                  Pronunciation above each translated word
+                </p>
+              </div>
+              {showReadings && (
+                <Check className="w-5 h-5 text-blue-600 flex-shrink-0" />
+              )}
+            </button>
+          </div>
+        )}
+
+        {/* Noun genders, for target languages that have them */}
+        {SUPPORTED_LANGUAGES[activeLanguage].genders && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
+              Gender
+            </h3>
+            <button
+              onClick={() => setColorByGender(!colorByGender)}
+              className={`w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
+                colorByGender
+                  ? "border-blue-500 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              }`}
+            >
+              <div className="text-left">
+                <p className="text-sm font-semibold text-gray-900">
+                  Color nouns by gender
+                </p>
+                <p className="text-xs text-gray-600">
+                  {SUPPORTED_LANGUAGES[activeLanguage].genders?.includes(
+                    "neuter"
+                  )
+                    ? "Blue masculine, pink feminine, green neuter"
+                    : "Blue masculine, pink feminine"}
+                </p>
+              </div>
+              {colorByGender && (
+                <Check className="w-5 h-5 text-blue-600 flex-shrink-0" />
+              )}
+            </button>
+          </div>
+        )}
+
         {/* Save Button */}
         <Button
           onClick={handleSave}
@@ -207,6 +355,9 @@ export function SettingsView({ onBack }: SettingsViewProps) {
         >
           {isSaving ? "Saving..." : "Save Settings"}
         </Button>
+
+        {/* Vocabulary Export & Import */}
+        <VocabularyTransferCard language={activeLanguage} />
       </div>
     </div>
   );
@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { Button } from "../../components/ui/button";
+import { Globe, Ban, Check } from "lucide-react";
+import { storageService } from "../../content/services/StorageService";
+import {
+  DEFAULT_SITE_POLICY,
+  getSiteOrigin,
+  type SitePolicy,
+  type SitePolicyMode,
+  type DifficultyLevel,
+  type DensityLevel,
+} from "../../content/utils/translationConfig";
+
+const MODE_OPTIONS: { value: SitePolicyMode; label: string }[] = [
+  { value: "always", label: "Always translate" },
+  { value: "ask", label: "Ask each visit" },
+  { value: "never", label: "Never translate" },
+];
+
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+const DENSITY_LABELS: Record<DensityLevel, string> = {
+  low: "Few",
+  medium: "Moderate",
+  high: "Many",
+};
+
+const SELECT_CLASS =
+  "w-full px-2 py-1.5 bg-gray-50 border border-gray-300 rounded-md text-xs font-medium text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+export function SitePolicyCard() {
+  const [origin, setOrigin] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<SitePolicy>(DEFAULT_SITE_POLICY);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      const tabOrigin = getSiteOrigin(tab?.url);
+      setOrigin(tabOrigin);
+
+      if (tabOrigin) {
+        const stored = await storageService.getSitePolicy(tabOrigin);
+        setPolicy(stored || DEFAULT_SITE_POLICY);
+      }
+    } catch (error) {
+      console.error("Error loading site policy:", error);
+    }
+  };
+
+  const savePolicy = async (updated: SitePolicy) => {
+    if (!origin) return;
+
+    setPolicy(updated);
+
+    // A policy matching the defaults is dropped so the site follows the
+    // global settings again
+    if (
+      updated.mode === DEFAULT_SITE_POLICY.mode &&
+      !updated.difficulty &&
+      !updated.density
+    ) {
+      await storageService.removeSitePolicy(origin);
+    } else {
+      await storageService.setSitePolicy(origin, updated);
+    }
+
+    // Notify background script (which will notify the site's tabs)
+    chrome.runtime.sendMessage({
+      type: "SITE_POLICY_CHANGED",
+      origin,
+    });
+  };
+
+  // Pages like chrome:// or the new tab page have no site to configure
+  if (!origin) {
+    return null;
+  }
+
+  const isDisabled = policy.mode === "never";
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Globe className="w-4 h-4 text-gray-500 flex-shrink-0" />
+        <span className="text-sm font-semibold text-gray-900 truncate">
+          {new URL(origin).hostname}
+        </span>
+      </div>
+
+      <Button
+        onClick={() =>
+          savePolicy({ ...policy, mode: isDisabled ? "always" : "never" })
+        }
+        variant="outline"
+        size="sm"
+        className="w-full gap-2"
+      >
+        {isDisabled ? (
+          <>
+            <Check className="w-4 h-4" />
+            Enable on this site
+          </>
+        ) : (
+          <>
+            <Ban className="w-4 h-4" />
+            Disable on this site
+          </>
+        )}
+      </Button>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">Mode</span>
+          <select
+            value={policy.mode}
+            onChange={(e) =>
+              savePolicy({
+                ...policy,
+                mode: e.target.value as SitePolicyMode,
+              })
+            }
+            className={SELECT_CLASS}
+          >
+            {MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">Difficulty</span>
+          <select
+            value={policy.difficulty || ""}
+            onChange={(e) =>
+              savePolicy({
+                ...policy,
+                difficulty: (e.target.value || undefined) as
+                  | DifficultyLevel
+                  | undefined,
+              })
+            }
+            className={SELECT_CLASS}
+          >
+            <option value="">Default</option>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">Density</span>
+          <select
+            value={policy.density || ""}
+            onChange={(e) =>
+              savePolicy({
+                ...policy,
+                density: (e.target.value || undefined) as
+                  | DensityLevel
+                  | undefined,
+              })
+            }
+            className={SELECT_CLASS}
+          >
+            <option value="">Default</option>
+            {Object.entries(DENSITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
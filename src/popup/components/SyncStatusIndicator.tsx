@@ -0,0 +1,72 @@
+import { useState, useEffect } from "react";
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import {
+  syncService,
+  type SyncState,
+  type SyncStatus,
+} from "../../content/services/SyncService";
+
+const STATE_DISPLAY: Record<
+  SyncState,
+  { label: string; icon: typeof Cloud; className: string }
+> = {
+  synced: { label: "Synced", icon: Cloud, className: "text-gray-500" },
+  syncing: { label: "Syncing", icon: RefreshCw, className: "text-blue-600" },
+  conflict: {
+    label: "Conflict",
+    icon: AlertTriangle,
+    className: "text-amber-600",
+  },
+  quota: {
+    label: "Sync full",
+    icon: AlertTriangle,
+    className: "text-amber-600",
+  },
+  error: { label: "Sync error", icon: CloudOff, className: "text-red-600" },
+};
+
+export function SyncStatusIndicator() {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    syncService.getStatus().then(setStatus);
+
+    // The background updates the status while the popup is open
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && changes.syncStatus?.newValue) {
+        setStatus(changes.syncStatus.newValue);
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+
+  const display = STATE_DISPLAY[status.state];
+  const Icon = display.icon;
+  const title = [
+    status.message,
+    status.lastSyncedAt &&
+      `Last sync: ${new Date(status.lastSyncedAt).toLocaleString()}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return (
+    <div
+      className={`ml-auto flex items-center gap-1 text-xs font-medium ${display.className}`}
+      title={title}
+    >
+      <Icon
+        className={`w-4 h-4 ${status.state === "syncing" ? "animate-spin" : ""}`}
+      />
+      {display.label}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { Button } from "../../components/ui/button";
+import { Download, Upload } from "lucide-react";
+import {
+  vocabularyExportService,
+  type ExportFormat,
+  type ExportFile,
+} from "../../content/services/VocabularyExportService";
+import type { SupportedLanguage } from "../../content/utils/translationConfig";
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "anki", label: "Anki" },
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "Backup" },
+];
+
+interface VocabularyTransferCardProps {
+  language: SupportedLanguage;
+}
+
+/**
+ * Save a generated file through a temporary download link
+ */
+function downloadFile({ filename, mimeType, content }: ExportFile): void {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${mimeType};charset=utf-8` })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function VocabularyTransferCard({
+  language,
+}: VocabularyTransferCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [message, setMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyAction(format);
+    setMessage(null);
+    try {
+      const file = await vocabularyExportService.exportVocabulary(
+        format,
+        language
+      );
+      downloadFile(file);
+    } catch (error) {
+      console.error("Error exporting vocabulary:", error);
+      setMessage({ text: "Export failed", isError: true });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    setBusyAction("import");
+    setMessage(null);
+    try {
+      const summary = await vocabularyExportService.importBackup(
+        await file.text()
+      );
+      setMessage({
+        text: `Imported ${summary.added} new and merged ${summary.updated} existing words`,
+        isError: false,
+      });
+    } catch (error) {
+      console.error("Error importing vocabulary:", error);
+      setMessage({
+        text: error instanceof Error ? error.message : "Import failed",
+        isError: true,
+      });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+        Export & Import
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        {EXPORT_OPTIONS.map((option) => (
+          <Button
+            key={option.format}
+            onClick={() => handleExport(option.format)}
+            disabled={busyAction !== null}
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+          >
+            <Download className="w-4 h-4" />
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={busyAction !== null}
+        variant="outline"
+        size="sm"
+        className="w-full gap-2"
+      >
+        <Upload className="w-4 h-4" />
+        {busyAction === "import" ? "Importing..." : "Import Backup"}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      <p
+        className={`text-xs ${
+          message?.isError ? "text-red-600" : "text-gray-600"
+        }`}
+      >
+        {message?.text ||
+          "Anki and CSV export the current language; backups include " +
+            "every language"}
+      </p>
+    </div>
+  );
+}
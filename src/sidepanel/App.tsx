@@ -1,22 +1,303 @@
-import crxLogo from '@/assets/crx.svg'
-import reactLogo from '@/assets/react.svg'
-import viteLogo from '@/assets/vite.svg'
-import HelloWorld from '@/components/HelloWorld'
-import './App.css'
+import { useState, useEffect, useMemo } from "react";
+import { Search, Volume2, BookOpen } from "lucide-react";
+import {
+  SUPPORTED_LANGUAGES,
+  getTtsLocale,
+  type SupportedLanguage,
+  type WordData,
+  type WordState,
+} from "../content/utils/translationConfig";
+import { storageService } from "../content/services/StorageService";
+import { speak } from "../content/utils/tts";
+import { WordDetail } from "./components/WordDetail";
+
+type WordFilter = "all" | "new" | "due" | "phrases" | WordState;
+type WordSort = "recent" | "encounters" | "alphabetical" | "due" | "firstSeen";
+
+const FILTERS: { value: WordFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "new", label: "New" },
+  { value: "due", label: "Due" },
+  { value: "phrases", label: "Phrases" },
+  { value: "known", label: "Known" },
+  { value: "mastered", label: "Mastered" },
+  { value: "ignored", label: "Ignored" },
+];
+
+const SORTS: { value: WordSort; label: string }[] = [
+  { value: "recent", label: "Recently seen" },
+  { value: "encounters", label: "Most seen" },
+  { value: "alphabetical", label: "A–Z" },
+  { value: "due", label: "Due first" },
+  { value: "firstSeen", label: "First seen" },
+];
+
+const STATE_BADGES: Record<WordState, string> = {
+  known: "bg-blue-100 text-blue-700",
+  mastered: "bg-green-100 text-green-700",
+  ignored: "bg-gray-100 text-gray-600",
+};
+
+/**
+ * Whether a word belongs under a filter chip
+ */
+function matchesFilter(word: WordData, filter: WordFilter, now: string) {
+  switch (filter) {
+    case "new":
+      return !word.state && !word.reviewHistory?.length;
+    case "due":
+      // Words with a state are out of the quiz rotation
+      return !word.state && !!word.dueDate && word.dueDate <= now;
+    case "phrases":
+      return !!word.isPhrase;
+    case "all":
+      return true;
+    default:
+      return word.state === filter;
+  }
+}
+
+function compareWords(sort: WordSort, a: WordData, b: WordData): number {
+  switch (sort) {
+    case "encounters":
+      return b.timesEncountered - a.timesEncountered;
+    case "alphabetical":
+      return a.target.localeCompare(b.target);
+    case "due":
+      // Unscheduled words go last
+      return (a.dueDate || "\uffff").localeCompare(b.dueDate || "\uffff");
+    case "firstSeen":
+      return a.firstSeenDate.localeCompare(b.firstSeenDate);
+    default:
+      return b.lastSeenDate.localeCompare(a.lastSeenDate);
+  }
+}
 
 export default function App() {
+  const [language, setLanguage] = useState<SupportedLanguage | null>(null);
+  const [words, setWords] = useState<Record<string, WordData>>({});
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<WordFilter>("all");
+  const [sort, setSort] = useState<WordSort>("recent");
+  const [selectedWordId, setSelectedWordId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWords();
+
+    // Follow language switches made in the popup
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName === "local" && changes.config) {
+        loadWords();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  // A word selected for another language no longer exists
+  useEffect(() => {
+    setSelectedWordId(null);
+  }, [language]);
+
+  const loadWords = async () => {
+    try {
+      const activeLanguage = await storageService.getActiveLanguage();
+      setLanguage(activeLanguage);
+      setWords(await storageService.getWords(activeLanguage));
+    } catch (error) {
+      console.error("Error loading vocabulary:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const now = new Date().toISOString();
+
+  const counts = useMemo(() => {
+    const result: Record<WordFilter, number> = {
+      all: 0,
+      new: 0,
+      due: 0,
+      phrases: 0,
+      known: 0,
+      mastered: 0,
+      ignored: 0,
+    };
+    for (const word of Object.values(words)) {
+      for (const { value } of FILTERS) {
+        if (matchesFilter(word, value, now)) {
+          result[value]++;
+        }
+      }
+    }
+    return result;
+  }, [words]);
+
+  const visibleWords = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return Object.entries(words)
+      .filter(
+        ([, word]) =>
+          matchesFilter(word, filter, now) &&
+          (!search ||
+            word.target.toLowerCase().includes(search) ||
+            word.source.toLowerCase().includes(search) ||
+            word.forms?.some((form) => form.includes(search)))
+      )
+      .sort(([, a], [, b]) => compareWords(sort, a, b));
+  }, [words, query, filter, sort]);
+
+  const handleSpeak = (word: WordData) => {
+    if (!language) return;
+    speak(word.target, getTtsLocale(language)).catch((error) =>
+      console.error("Error speaking word:", error)
+    );
+  };
+
+  if (loading || !language) {
+    return (
+      <div className="flex items-center justify-center w-full h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  const selectedWord = selectedWordId ? words[selectedWordId] : undefined;
+
+  if (selectedWordId && selectedWord) {
+    return (
+      <div className="w-full h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+        <WordDetail
+          language={language}
+          wordId={selectedWordId}
+          word={selectedWord}
+          onBack={() => setSelectedWordId(null)}
+          onUpdated={(word) =>
+            setWords((prev) => ({ ...prev, [selectedWordId]: word }))
+          }
+          onDeleted={() => {
+            setWords((prev) => {
+              const next = { ...prev };
+              delete next[selectedWordId];
+              return next;
+            });
+            setSelectedWordId(null);
+          }}
+        />
+      </div>
+    );
+  }
+
+  const languageInfo = SUPPORTED_LANGUAGES[language];
+
   return (
-    <div>
-      <a href="https://vite.dev" target="_blank" rel="noreferrer">
-        <img src={viteLogo} className="logo" alt="Vite logo" />
-      </a>
-      <a href="https://reactjs.org/" target="_blank" rel="noreferrer">
-        <img src={reactLogo} className="logo react" alt="React logo" />
-      </a>
-      <a href="https://crxjs.dev/vite-plugin" target="_blank" rel="noreferrer">
-        <img src={crxLogo} className="logo crx" alt="crx logo" />
-      </a>
-      <HelloWorld msg="Vite + React + CRXJS" />
+    <div className="flex flex-col w-full h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3 space-y-3">
+        <div className="flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-blue-600" />
+          <h1 className="text-base font-bold text-gray-900">
+            {languageInfo.flag} {languageInfo.displayName} vocabulary
+          </h1>
+          <span className="ml-auto text-xs text-gray-500">
+            {counts.all} words
+          </span>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search words"
+            className="w-full pl-9 pr-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                filter === value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {label} {counts[value]}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as WordSort)}
+          className="w-full px-3 py-1.5 bg-gray-50 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {SORTS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              Sort: {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Word list */}
+      <div className="flex-1 overflow-y-auto">
+        {visibleWords.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500">
+            {counts.all === 0
+              ? "Words you meet while browsing will appear here."
+              : "No words match."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 bg-white">
+            {visibleWords.map(([wordId, word]) => (
+              <li
+                key={wordId}
+                onClick={() => setSelectedWordId(wordId)}
+                className="flex items-center gap-3 px-4 py-2.5 cursor-pointer hover:bg-blue-50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {word.target}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {word.source}
+                  </p>
+                </div>
+                {word.state && (
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs ${
+                      STATE_BADGES[word.state]
+                    }`}
+                  >
+                    {word.state}
+                  </span>
+                )}
+                <span className="text-xs text-gray-400">
+                  {word.timesEncountered}×
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleSpeak(word);
+                  }}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                  aria-label={`Listen to ${word.target}`}
+                >
+                  <Volume2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
-  )
+  );
 }
@@ -0,0 +1,429 @@
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  Volume2,
+  Pencil,
+  Check,
+  X,
+  Trash2,
+  Award,
+  EyeOff,
+  CircleCheck,
+  ExternalLink,
+} from "lucide-react";
+import {
+  SUPPORTED_LANGUAGES,
+  getTextDirection,
+  getTtsLocale,
+  type SupportedLanguage,
+  type WordData,
+  type ReviewGrade,
+  type WordState,
+} from "../../content/utils/translationConfig";
+import { storageService } from "../../content/services/StorageService";
+import type {
+  EncounterRecord,
+  QuizResultRecord,
+} from "../../content/services/VocabularyRepository";
+import { speak } from "../../content/utils/tts";
+import { Button } from "../../components/ui/button";
+
+interface WordDetailProps {
+  language: SupportedLanguage;
+  wordId: string;
+  word: WordData;
+  onBack: () => void;
+  onUpdated: (word: WordData) => void;
+  onDeleted: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: "bg-red-100 text-red-700",
+  hard: "bg-amber-100 text-amber-700",
+  good: "bg-green-100 text-green-700",
+  easy: "bg-blue-100 text-blue-700",
+};
+
+function formatDate(date: string | undefined): string {
+  return date ? new Date(date).toLocaleDateString() : "—";
+}
+
+function getPageLabel(encounter: EncounterRecord): string {
+  if (encounter.pageTitle) {
+    return encounter.pageTitle;
+  }
+  try {
+    return new URL(encounter.url || "").hostname;
+  } catch {
+    return encounter.url || "Unknown page";
+  }
+}
+
+export function WordDetail({
+  language,
+  wordId,
+  word,
+  onBack,
+  onUpdated,
+  onDeleted,
+}: WordDetailProps) {
+  const [encounters, setEncounters] = useState<EncounterRecord[]>([]);
+  const [quizResults, setQuizResults] = useState<QuizResultRecord[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(word.target);
+  const [saving, setSaving] = useState(false);
+  const [isCorrected, setIsCorrected] = useState(false);
+
+  useEffect(() => {
+    loadHistory();
+    setEditing(false);
+    setDraft(word.target);
+  }, [language, wordId]);
+
+  const loadHistory = async () => {
+    const [wordEncounters, wordQuizResults, glossary] = await Promise.all([
+      storageService.getWordEncounters(language, wordId),
+      storageService.getWordQuizResults(language, wordId),
+      storageService.getGlossary(language),
+    ]);
+    setEncounters(wordEncounters);
+    setQuizResults(wordQuizResults);
+    // Corrections are kept per sense
+    setIsCorrected(wordId in glossary);
+  };
+
+  const handleSaveTarget = async () => {
+    const target = draft.trim();
+    if (!target || target === word.target) {
+      setEditing(false);
+      setDraft(word.target);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Saved to the glossary so pages and quizzes use it from now on
+      const updated = await storageService.correctTranslation(
+        language,
+        word.source,
+        target,
+        word.sourceLanguage,
+        wordId
+      );
+      if (updated) {
+        onUpdated(updated);
+      }
+      setIsCorrected(true);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveCorrection = async () => {
+    await storageService.removeCorrection(language, wordId);
+    setIsCorrected(false);
+  };
+
+  const handleToggleState = async (state: WordState) => {
+    setSaving(true);
+    try {
+      // Clearing the state puts the word back into normal rotation
+      const updated = await storageService.setWordState(
+        language,
+        wordId,
+        word.state === state ? null : state
+      );
+      if (updated) {
+        onUpdated(updated);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !window.confirm(
+        `Delete "${word.target}" and everything recorded about it?`
+      )
+    ) {
+      return;
+    }
+    await storageService.deleteWord(language, wordId);
+    onDeleted();
+  };
+
+  const handleSpeak = (text: string, textLanguage: SupportedLanguage) => {
+    speak(text, getTtsLocale(textLanguage)).catch((error) =>
+      console.error("Error speaking word:", error)
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 bg-white border-b border-gray-200">
+        <button
+          onClick={onBack}
+          className="p-1 rounded hover:bg-gray-100 text-gray-600"
+          aria-label="Back to word list"
+        >
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <h2
+          className="text-sm font-semibold text-gray-900 truncate"
+          dir={getTextDirection(language)}
+        >
+          {word.target}
+        </h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Translation */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+          <div>
+            <p className="text-xs text-gray-500 mb-1">
+              {SUPPORTED_LANGUAGES[language].displayName}
+            </p>
+            {editing ? (
+              <div className="flex items-center gap-2">
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSaveTarget();
+                    if (e.key === "Escape") {
+                      setEditing(false);
+                      setDraft(word.target);
+                    }
+                  }}
+                  autoFocus
+                  dir={getTextDirection(language)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-lg font-semibold text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleSaveTarget}
+                  disabled={saving}
+                  className="p-1 rounded hover:bg-green-50 text-green-600"
+                  aria-label="Save translation"
+                >
+                  <Check className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(false);
+                    setDraft(word.target);
+                  }}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                  aria-label="Cancel edit"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <bdi className="text-lg font-semibold text-gray-900">
+                  {word.target}
+                </bdi>
+                <button
+                  onClick={() => handleSpeak(word.target, language)}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                  aria-label="Listen"
+                >
+                  <Volume2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setEditing(true)}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                  aria-label="Edit translation"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {isCorrected && !editing && (
+              <p className="mt-1 text-xs text-gray-500">
+                Your correction, used instead of the AI translation.{" "}
+                <button
+                  onClick={handleRemoveCorrection}
+                  className="text-blue-600 hover:underline"
+                >
+                  Remove from glossary
+                </button>
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-1">
+              {SUPPORTED_LANGUAGES[word.sourceLanguage].displayName}
+            </p>
+            <div className="flex items-center gap-2">
+              <bdi className="text-gray-800">{word.source}</bdi>
+              <button
+                onClick={() => handleSpeak(word.source, word.sourceLanguage)}
+                className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                aria-label="Listen to the original"
+              >
+                <Volume2 className="w-4 h-4" />
+              </button>
+            </div>
+            {word.forms && word.forms.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500">
+                Also seen as {word.forms.join(", ")}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Progress */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <dt className="text-xs text-gray-500">Seen</dt>
+              <dd className="font-medium text-gray-900">
+                {word.timesEncountered}×
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Next review</dt>
+              <dd className="font-medium text-gray-900">
+                {formatDate(word.dueDate)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">First seen</dt>
+              <dd className="font-medium text-gray-900">
+                {formatDate(word.firstSeenDate)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500">Last seen</dt>
+              <dd className="font-medium text-gray-900">
+                {formatDate(word.lastSeenDate)}
+              </dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* State */}
+        <div className="flex gap-2">
+          <Button
+            onClick={() => handleToggleState("known")}
+            disabled={saving}
+            variant={word.state === "known" ? "default" : "outline"}
+            className="flex-1 gap-2"
+          >
+            <CircleCheck className="w-4 h-4" />
+            Known
+          </Button>
+          <Button
+            onClick={() => handleToggleState("mastered")}
+            disabled={saving}
+            variant={word.state === "mastered" ? "default" : "outline"}
+            className="flex-1 gap-2"
+          >
+            <Award className="w-4 h-4" />
+            Mastered
+          </Button>
+          <Button
+            onClick={() => handleToggleState("ignored")}
+            disabled={saving}
+            variant={word.state === "ignored" ? "default" : "outline"}
+            className="flex-1 gap-2"
+          >
+            <EyeOff className="w-4 h-4" />
+            Ignored
+          </Button>
+        </div>
+
+        {/* Contexts */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
+            Seen in
+          </h3>
+          {encounters.length === 0 ? (
+            <p className="text-sm text-gray-500">No contexts recorded yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {encounters.map((encounter) => (
+                <li key={encounter.id} className="text-sm">
+                  {encounter.sentence && (
+                    <p
+                      className="text-gray-800 italic"
+                      dir={getTextDirection(word.sourceLanguage)}
+                    >
+                      “{encounter.sentence}”
+                    </p>
+                  )}
+                  <div className="flex items-center gap-1 mt-1 text-xs text-gray-500">
+                    {encounter.url ? (
+                      <a
+                        href={encounter.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 hover:text-blue-600 truncate"
+                      >
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                        <span className="truncate">
+                          {getPageLabel(encounter)}
+                        </span>
+                      </a>
+                    ) : (
+                      <span>{getPageLabel(encounter)}</span>
+                    )}
+                    <span>· {formatDate(encounter.date)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Quiz history */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-3">
+            Quiz history
+          </h3>
+          {quizResults.length === 0 ? (
+            <p className="text-sm text-gray-500">Not quizzed yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {quizResults.map((result) => (
+                <li
+                  key={result.id}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-600">
+                    {formatDate(result.date)}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        GRADE_STYLES[result.grade]
+                      }`}
+                    >
+                      {result.grade}
+                    </span>
+                    <span className="text-xs text-gray-500 w-16 text-right">
+                      +{result.interval}d
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button
+          onClick={handleDelete}
+          variant="outline"
+          className="w-full gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete word
+        </Button>
+      </div>
+    </div>
+  );
+}